@@ -3,8 +3,13 @@ import fs from 'fs-extra';
 import {Command} from 'commander';
 import chalk from "chalk";
 import jwt from "jsonwebtoken";
-import {$} from "bun";
+import {$, SQL} from "bun";
 import * as crypto from "node:crypto";
+import * as os from "node:os";
+import * as path from "node:path";
+import inputSchema from "./input.schema.json";
+
+const TOOL_VERSION = "1.0.0";
 
 // Register a join helper to render arrays (e.g. additional redirect URLs)
 handlebars.registerHelper('join', (arr: unknown, sep = ',') => {
@@ -17,7 +22,9 @@ handlebars.registerHelper('raw', (value: unknown) => {
     return value == null ? '' : String(value);
 });
 
-const TEMPLATE = handlebars.compile(`
+// Variables written to .env. Secrets come from resolveSecrets, settings from TEMPLATE_SETTINGS (configurable
+// in input.json) and anything else from the input's "extraEnv" block, which is appended at the end.
+const TEMPLATE_SOURCE = `
 POSTGRES_PASSWORD="{{{data.POSTGRES_PASSWORD}}}"
 JWT_SECRET="{{{data.JWT_SECRET}}}"
 ANON_KEY="{{{data.ANON_KEY}}}"
@@ -26,28 +33,28 @@ DASHBOARD_USERNAME="{{{data.DASHBOARD_USERNAME}}}"
 DASHBOARD_PASSWORD="{{{data.DASHBOARD_PASSWORD}}}"
 SECRET_KEY_BASE="{{{data.SECRET_KEY_BASE}}}"
 VAULT_ENC_KEY="{{{data.VAULT_ENC_KEY}}}"
-POSTGRES_HOST=db
-POSTGRES_DB=postgres
-POSTGRES_PORT=5432
-POOLER_PROXY_PORT_TRANSACTION=6543
-POOLER_DEFAULT_POOL_SIZE=20
-POOLER_MAX_CLIENT_CONN=100
-POOLER_TENANT_ID=1
-POOLER_DB_POOL_SIZE=5
-KONG_HTTP_PORT=8000
-KONG_HTTPS_PORT=8443
-PGRST_DB_SCHEMAS="public,storage,graphql_public"
+POSTGRES_HOST={{{data.settings.POSTGRES_HOST}}}
+POSTGRES_DB={{{data.settings.POSTGRES_DB}}}
+POSTGRES_PORT={{{data.settings.POSTGRES_PORT}}}
+POOLER_PROXY_PORT_TRANSACTION={{{data.settings.POOLER_PROXY_PORT_TRANSACTION}}}
+POOLER_DEFAULT_POOL_SIZE={{{data.settings.POOLER_DEFAULT_POOL_SIZE}}}
+POOLER_MAX_CLIENT_CONN={{{data.settings.POOLER_MAX_CLIENT_CONN}}}
+POOLER_TENANT_ID={{{data.settings.POOLER_TENANT_ID}}}
+POOLER_DB_POOL_SIZE={{{data.settings.POOLER_DB_POOL_SIZE}}}
+KONG_HTTP_PORT={{{data.settings.KONG_HTTP_PORT}}}
+KONG_HTTPS_PORT={{{data.settings.KONG_HTTPS_PORT}}}
+PGRST_DB_SCHEMAS="{{{data.settings.PGRST_DB_SCHEMAS}}}"
 SITE_URL="{{{data.siteUrl}}}"
 ADDITIONAL_REDIRECT_URLS="{{{join data.additionalRedirectUrls ','}}}"
-JWT_EXPIRY=3600
-DISABLE_SIGNUP=false
+JWT_EXPIRY={{{data.settings.JWT_EXPIRY}}}
+DISABLE_SIGNUP={{{data.settings.DISABLE_SIGNUP}}}
 API_EXTERNAL_URL="{{{data.apiUrl}}}"
-MAILER_URLPATHS_CONFIRMATION="/auth/v1/verify"
-MAILER_URLPATHS_INVITE="/auth/v1/verify"
-MAILER_URLPATHS_RECOVERY="/auth/v1/verify"
-MAILER_URLPATHS_EMAIL_CHANGE="/auth/v1/verify"
-ENABLE_EMAIL_SIGNUP=true
-ENABLE_EMAIL_AUTOCONFIRM=false
+MAILER_URLPATHS_CONFIRMATION="{{{data.settings.MAILER_URLPATHS_CONFIRMATION}}}"
+MAILER_URLPATHS_INVITE="{{{data.settings.MAILER_URLPATHS_INVITE}}}"
+MAILER_URLPATHS_RECOVERY="{{{data.settings.MAILER_URLPATHS_RECOVERY}}}"
+MAILER_URLPATHS_EMAIL_CHANGE="{{{data.settings.MAILER_URLPATHS_EMAIL_CHANGE}}}"
+ENABLE_EMAIL_SIGNUP={{{data.settings.ENABLE_EMAIL_SIGNUP}}}
+ENABLE_EMAIL_AUTOCONFIRM={{{data.settings.ENABLE_EMAIL_AUTOCONFIRM}}}
 {{#if data.email}}
 SMTP_ADMIN_EMAIL="{{{data.email.from}}}"
 SMTP_HOST="{{{data.email.host}}}"
@@ -56,91 +63,741 @@ SMTP_USER="{{{data.email.user}}}"
 SMTP_PASS="{{{data.email.pass}}}"
 SMTP_SENDER_NAME="{{{data.email.senderName}}}"
 {{/if}}
-ENABLE_ANONYMOUS_USERS=false
-ENABLE_PHONE_SIGNUP=true
-ENABLE_PHONE_AUTOCONFIRM=true
+ENABLE_ANONYMOUS_USERS={{{data.settings.ENABLE_ANONYMOUS_USERS}}}
+ENABLE_PHONE_SIGNUP={{{data.settings.ENABLE_PHONE_SIGNUP}}}
+ENABLE_PHONE_AUTOCONFIRM={{{data.settings.ENABLE_PHONE_AUTOCONFIRM}}}
 STUDIO_DEFAULT_ORGANIZATION="{{{data.organization}}}"
 STUDIO_DEFAULT_PROJECT="{{{data.project}}}"
-STUDIO_PORT=3000
+STUDIO_PORT={{{data.settings.STUDIO_PORT}}}
 SUPABASE_PUBLIC_URL="{{{data.apiUrl}}}"
-IMGPROXY_ENABLE_WEBP_DETECTION=true
-FUNCTIONS_VERIFY_JWT=false
-DOCKER_SOCKET_LOCATION="/var/run/docker.sock"
-`.trim());
+IMGPROXY_ENABLE_WEBP_DETECTION={{{data.settings.IMGPROXY_ENABLE_WEBP_DETECTION}}}
+FUNCTIONS_VERIFY_JWT={{{data.settings.FUNCTIONS_VERIFY_JWT}}}
+DOCKER_SOCKET_LOCATION="{{{data.settings.DOCKER_SOCKET_LOCATION}}}"
+{{#each data.extraEnv}}
+{{@key}}="{{{this}}}"
+{{/each}}
+`.trim();
+
+const TEMPLATE = handlebars.compile(TEMPLATE_SOURCE);
+
+// Every variable the template writes itself; extraEnv may not redefine these
+const TEMPLATE_VARIABLES = [...TEMPLATE_SOURCE.matchAll(/^([A-Z_][A-Z0-9_]*)=/gm)].map(match => match[1]!);
+
+// === PROJECT CONFIG ===
+// supabase-tool.config.json tells every command where the project lives and how it is laid out. Any key
+// that is left out falls back to the defaults below, which match the layout `init` creates.
+
+const PROJECT_CONFIG_PATH = 'supabase-tool.config.json';
+
+interface EnvironmentConfig {
+    url?: string;
+    host?: string;
+    port?: string | number;
+    user?: string;
+    database?: string;
+    // Name of the environment variable holding the password, so the config file can be committed
+    passwordEnv?: string;
+    sslmode?: string;
+    sslrootcert?: string;
+}
+
+interface ProjectConfig {
+    projectDir: string;
+    migrationsDir: string;
+    // dump-schema backups, kept apart so nothing in them can be mistaken for a migration
+    backupsDir: string;
+    // Migration files replaced by a squash baseline, one folder per baseline
+    archiveDir: string;
+    // Seed sets, one folder each (dev, test, prod)
+    seedsDir: string;
+    schemaDir: string;
+    // Schema areas in schemaDir that deploy combines, in order: each is `<area>.sql` and/or a `<area>/` directory
+    schemaFiles: string[];
+    // Schema areas that fail when run twice (plain CREATE TABLE, INSERT); deploy only re-runs them with --force
+    nonIdempotentSchemaFiles: string[];
+    // Extra files in migrationsDir to skip without a warning (e.g. README.md)
+    ignoredMigrationFiles: string[];
+    trackingTable: { schema: string; name: string };
+    // Image used for psql/pg_dump; pinned so every run uses the same client version
+    dockerImage: string;
+    environments: Record<string, EnvironmentConfig>;
+    // Level per lint rule id; rules left out keep their default level
+    lint: { rules: Record<string, LintLevel> };
+}
+
+const defaultProjectConfig = (projectDir = 'supabase-project'): ProjectConfig => ({
+    projectDir,
+    migrationsDir: `${projectDir}/migrations`,
+    backupsDir: `${projectDir}/backups`,
+    archiveDir: `${projectDir}/migrations-archive`,
+    seedsDir: `${projectDir}/seeds`,
+    schemaDir: `${projectDir}/postgres`,
+    schemaFiles: ['pre', 'enums', 'base', 'constraints', 'genesis', 'functions', 'triggers', 'views', 'data'],
+    nonIdempotentSchemaFiles: ['base', 'data'],
+    ignoredMigrationFiles: [],
+    trackingTable: { schema: 'public', name: 'schema_migrations' },
+    dockerImage: 'postgres:17',
+    environments: {},
+    lint: { rules: {} }
+});
+
+const ENVIRONMENT_KEYS = ['url', 'host', 'port', 'user', 'database', 'passwordEnv', 'sslmode', 'sslrootcert'];
+
+// Check a parsed config file, returning one message per problem, prefixed with its JSON path
+const validateProjectConfig = (raw: unknown): string[] => {
+    const errors: string[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+    const isNonEmptyString = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+    if (!isObject(raw)) {
+        return ['(root): must be a JSON object'];
+    }
+
+    const knownKeys = Object.keys(defaultProjectConfig()).concat('$schema');
+    for (const key of Object.keys(raw)) {
+        if (!knownKeys.includes(key)) {
+            errors.push(`${key}: unknown setting (expected one of ${knownKeys.filter(known => known !== '$schema').join(', ')})`);
+        }
+    }
+
+    for (const key of ['projectDir', 'migrationsDir', 'backupsDir', 'archiveDir', 'seedsDir', 'schemaDir', 'dockerImage']) {
+        if (key in raw && !isNonEmptyString(raw[key])) {
+            errors.push(`${key}: must be a non-empty string`);
+        }
+    }
+
+    for (const key of ['schemaFiles', 'nonIdempotentSchemaFiles', 'ignoredMigrationFiles']) {
+        if (!(key in raw)) continue;
+        const list = raw[key];
+        if (!Array.isArray(list)) {
+            errors.push(`${key}: must be an array of file names`);
+            continue;
+        }
+        list.forEach((item, index) => {
+            if (!isNonEmptyString(item)) {
+                errors.push(`${key}[${index}]: must be a non-empty string`);
+            } else if (list.indexOf(item) !== index) {
+                errors.push(`${key}[${index}]: "${item}" is listed more than once`);
+            }
+        });
+    }
+
+    if ('trackingTable' in raw) {
+        const trackingTable = raw.trackingTable;
+        if (!isObject(trackingTable)) {
+            errors.push('trackingTable: must be an object with "schema" and "name"');
+        } else {
+            for (const key of Object.keys(trackingTable)) {
+                if (key !== 'schema' && key !== 'name') {
+                    errors.push(`trackingTable.${key}: unknown setting (expected schema, name)`);
+                } else if (typeof trackingTable[key] !== 'string' || !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(trackingTable[key] as string)) {
+                    errors.push(`trackingTable.${key}: must be a plain SQL identifier`);
+                }
+            }
+        }
+    }
+
+    if ('environments' in raw) {
+        const environments = raw.environments;
+        if (!isObject(environments)) {
+            errors.push('environments: must be an object of named environments');
+        } else {
+            for (const [name, environment] of Object.entries(environments)) {
+                const prefix = `environments.${name}`;
+                if (!isObject(environment)) {
+                    errors.push(`${prefix}: must be an object`);
+                    continue;
+                }
+                for (const [key, value] of Object.entries(environment)) {
+                    if (!ENVIRONMENT_KEYS.includes(key)) {
+                        errors.push(`${prefix}.${key}: unknown setting (expected one of ${ENVIRONMENT_KEYS.join(', ')})`);
+                    } else if (key === 'port') {
+                        if (!/^\d+$/.test(String(value)) || Number(value) < 1 || Number(value) > 65535) {
+                            errors.push(`${prefix}.port: must be a port number between 1 and 65535`);
+                        }
+                    } else if (!isNonEmptyString(value)) {
+                        errors.push(`${prefix}.${key}: must be a non-empty string`);
+                    } else if (key === 'sslmode' && !(SSL_MODES as readonly string[]).includes(value as string)) {
+                        errors.push(`${prefix}.sslmode: must be one of ${SSL_MODES.join(', ')}`);
+                    } else if (key === 'url' && !/^postgres(ql)?:\/\//.test(value as string)) {
+                        errors.push(`${prefix}.url: must be a postgres:// connection string`);
+                    }
+                }
+            }
+        }
+    }
+
+    if ('lint' in raw) {
+        const lint = raw.lint;
+        if (!isObject(lint)) {
+            errors.push('lint: must be an object with "rules"');
+        } else {
+            for (const key of Object.keys(lint)) {
+                if (key !== 'rules') {
+                    errors.push(`lint.${key}: unknown setting (expected rules)`);
+                }
+            }
+            if ('rules' in lint && !isObject(lint.rules)) {
+                errors.push('lint.rules: must be an object of rule ids and levels');
+            } else if (isObject(lint.rules)) {
+                for (const [rule, level] of Object.entries(lint.rules)) {
+                    if (!LINT_RULES.some(known => known.id === rule)) {
+                        errors.push(`lint.rules.${rule}: unknown rule (expected one of ${LINT_RULES.map(known => known.id).join(', ')})`);
+                    } else if (!(LINT_LEVELS as readonly unknown[]).includes(level)) {
+                        errors.push(`lint.rules.${rule}: must be one of ${LINT_LEVELS.join(', ')}`);
+                    }
+                }
+            }
+        }
+    }
+
+    return errors;
+};
+
+let projectConfig: ProjectConfig | null = null;
+
+// Load and validate the project config once per run. Throws with every problem listed if it is invalid.
+const loadProjectConfig = (): ProjectConfig => {
+    if (projectConfig) return projectConfig;
+
+    if (!fs.existsSync(PROJECT_CONFIG_PATH)) {
+        projectConfig = defaultProjectConfig();
+        return projectConfig;
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(PROJECT_CONFIG_PATH, 'utf-8'));
+    } catch (error) {
+        throw new Error(`${PROJECT_CONFIG_PATH} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors = validateProjectConfig(raw);
+    if (errors.length > 0) {
+        throw new Error(`Invalid ${PROJECT_CONFIG_PATH}:\n${errors.map(error => `  • ${error}`).join('\n')}`);
+    }
+
+    // Validated above, so every setting has the type ProjectConfig gives it
+    const { $schema, ...settings } = raw as Partial<ProjectConfig> & { $schema?: string };
+    const defaults = defaultProjectConfig(settings.projectDir);
+    projectConfig = {
+        ...defaults,
+        ...settings,
+        trackingTable: { ...defaults.trackingTable, ...settings.trackingTable },
+        lint: { ...defaults.lint, ...settings.lint }
+    };
+    return projectConfig!;
+};
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Schema-qualified, quoted name of the migrations tracking table
+const trackingTableName = () => {
+    const { schema, name } = loadProjectConfig().trackingTable;
+    return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+};
+
+// Deploy and seed history are kept next to the migrations tracking table
+const DEPLOY_TRACKING_TABLE = 'schema_deploys';
+const deployTrackingTableName = () => `${quoteIdent(loadProjectConfig().trackingTable.schema)}.${quoteIdent(DEPLOY_TRACKING_TABLE)}`;
+const SEED_TRACKING_TABLE = 'schema_seeds';
+const seedTrackingTableName = () => `${quoteIdent(loadProjectConfig().trackingTable.schema)}.${quoteIdent(SEED_TRACKING_TABLE)}`;
+
+// === INPUT FILE ===
+// input.json describes the environment `generate` renders. It is validated against the same rules as
+// input.schema.json (shipped for editor autocompletion) before anything is written.
+
+interface EmailConfig {
+    from: string;
+    host: string;
+    port: number;
+    user: string;
+    pass: string;
+    senderName?: string;
+}
+
+type SettingValue = boolean | number | string | string[];
+
+// A .env variable that input.json can set. The group and key give its place in the input file (auth.jwtExpiry).
+interface TemplateSetting {
+    env: string;
+    group: string;
+    key: string;
+    type: 'boolean' | 'integer' | 'port' | 'string' | 'list';
+    default: SettingValue;
+    description: string;
+}
+
+const TEMPLATE_SETTINGS: TemplateSetting[] = [
+    { env: 'POSTGRES_HOST', group: 'database', key: 'host', type: 'string', default: 'db', description: 'Database host inside the Docker network' },
+    { env: 'POSTGRES_DB', group: 'database', key: 'name', type: 'string', default: 'postgres', description: 'Database name' },
+    { env: 'POSTGRES_PORT', group: 'database', key: 'port', type: 'port', default: 5432, description: 'Database port' },
+    { env: 'POOLER_PROXY_PORT_TRANSACTION', group: 'pooler', key: 'proxyPortTransaction', type: 'port', default: 6543, description: 'Supavisor transaction-mode port' },
+    { env: 'POOLER_DEFAULT_POOL_SIZE', group: 'pooler', key: 'defaultPoolSize', type: 'integer', default: 20, description: 'Server connections per user/database pair' },
+    { env: 'POOLER_MAX_CLIENT_CONN', group: 'pooler', key: 'maxClientConn', type: 'integer', default: 100, description: 'Maximum client connections' },
+    { env: 'POOLER_TENANT_ID', group: 'pooler', key: 'tenantId', type: 'string', default: '1', description: 'Supavisor tenant id' },
+    { env: 'POOLER_DB_POOL_SIZE', group: 'pooler', key: 'dbPoolSize', type: 'integer', default: 5, description: 'Connections the pooler keeps to the database' },
+    { env: 'KONG_HTTP_PORT', group: 'api', key: 'httpPort', type: 'port', default: 8000, description: 'Kong HTTP port' },
+    { env: 'KONG_HTTPS_PORT', group: 'api', key: 'httpsPort', type: 'port', default: 8443, description: 'Kong HTTPS port' },
+    { env: 'PGRST_DB_SCHEMAS', group: 'api', key: 'exposedSchemas', type: 'list', default: ['public', 'storage', 'graphql_public'], description: 'Schemas exposed through the REST API' },
+    { env: 'JWT_EXPIRY', group: 'auth', key: 'jwtExpiry', type: 'integer', default: 3600, description: 'Access token lifetime in seconds' },
+    { env: 'DISABLE_SIGNUP', group: 'auth', key: 'disableSignup', type: 'boolean', default: false, description: 'Reject new sign-ups' },
+    { env: 'ENABLE_EMAIL_SIGNUP', group: 'auth', key: 'enableEmailSignup', type: 'boolean', default: true, description: 'Allow email sign-up' },
+    { env: 'ENABLE_EMAIL_AUTOCONFIRM', group: 'auth', key: 'enableEmailAutoconfirm', type: 'boolean', default: false, description: 'Skip email confirmation' },
+    { env: 'ENABLE_ANONYMOUS_USERS', group: 'auth', key: 'enableAnonymousUsers', type: 'boolean', default: false, description: 'Allow anonymous sign-ins' },
+    { env: 'ENABLE_PHONE_SIGNUP', group: 'auth', key: 'enablePhoneSignup', type: 'boolean', default: true, description: 'Allow phone sign-up' },
+    { env: 'ENABLE_PHONE_AUTOCONFIRM', group: 'auth', key: 'enablePhoneAutoconfirm', type: 'boolean', default: true, description: 'Skip phone confirmation' },
+    { env: 'MAILER_URLPATHS_CONFIRMATION', group: 'auth', key: 'mailerConfirmationPath', type: 'string', default: '/auth/v1/verify', description: 'Path used in confirmation emails' },
+    { env: 'MAILER_URLPATHS_INVITE', group: 'auth', key: 'mailerInvitePath', type: 'string', default: '/auth/v1/verify', description: 'Path used in invite emails' },
+    { env: 'MAILER_URLPATHS_RECOVERY', group: 'auth', key: 'mailerRecoveryPath', type: 'string', default: '/auth/v1/verify', description: 'Path used in recovery emails' },
+    { env: 'MAILER_URLPATHS_EMAIL_CHANGE', group: 'auth', key: 'mailerEmailChangePath', type: 'string', default: '/auth/v1/verify', description: 'Path used in email change emails' },
+    { env: 'STUDIO_PORT', group: 'studio', key: 'port', type: 'port', default: 3000, description: 'Studio port' },
+    { env: 'FUNCTIONS_VERIFY_JWT', group: 'functions', key: 'verifyJwt', type: 'boolean', default: false, description: 'Require a valid JWT to call Edge Functions' },
+    { env: 'IMGPROXY_ENABLE_WEBP_DETECTION', group: 'imgproxy', key: 'enableWebpDetection', type: 'boolean', default: true, description: 'Serve WebP to browsers that accept it' },
+    { env: 'DOCKER_SOCKET_LOCATION', group: 'docker', key: 'socketLocation', type: 'string', default: '/var/run/docker.sock', description: 'Docker socket mounted by the log collector' }
+];
+
+const SETTING_GROUPS = [...new Set(TEMPLATE_SETTINGS.map(setting => setting.group))];
+
+interface InputConfig {
+    siteUrl: string;
+    apiUrl: string;
+    organization?: string;
+    project?: string;
+    additionalRedirectUrls?: string[];
+    dashboardUsername?: string;
+    dashboardPassword?: string;
+    email?: EmailConfig;
+    // Setting groups from TEMPLATE_SETTINGS, e.g. { "auth": { "disableSignup": true } }
+    [group: string]: unknown;
+    // Variables the template does not know about (OAuth providers, ...), written as-is
+    extraEnv?: Record<string, string | number | boolean>;
+}
+
+const INPUT_SCHEMA_PATH = 'input.schema.json';
+const INPUT_KEYS = ['siteUrl', 'apiUrl', 'organization', 'project', 'additionalRedirectUrls', 'dashboardUsername', 'dashboardPassword', 'email', ...SETTING_GROUPS, 'extraEnv'];
+const EMAIL_KEYS = ['from', 'host', 'port', 'user', 'pass', 'senderName'];
+const EMAIL_REQUIRED_KEYS = ['from', 'host', 'port', 'user', 'pass'];
+
+const isHttpUrl = (value: string) => {
+    try {
+        const url = new URL(value);
+        return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.length > 0;
+    } catch {
+        return false;
+    }
+};
+
+// Point at the intended key when an unknown one only differs in case (siteURL -> siteUrl)
+const unknownKeyMessage = (path: string, key: string, knownKeys: string[]) => {
+    const suggestion = knownKeys.find(known => known.toLowerCase() === key.toLowerCase());
+    return suggestion
+        ? `${path}: unknown setting, did you mean "${suggestion}"?`
+        : `${path}: unknown setting (expected one of ${knownKeys.join(', ')})`;
+};
+
+// Check one setting value against its type, returning the problem or null
+const checkSettingValue = (setting: TemplateSetting, value: unknown): string | null => {
+    switch (setting.type) {
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'must be true or false';
+        case 'integer':
+            return Number.isInteger(value) && (value as number) > 0 ? null : 'must be a positive integer';
+        case 'port':
+            return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535 ? null : 'must be a port number between 1 and 65535';
+        case 'string':
+            return typeof value === 'string' && value.trim().length > 0 && !/["\r\n]/.test(value) ? null : 'must be a non-empty string without quotes or line breaks';
+        case 'list':
+            return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && /^[^\s,"]+$/.test(item))
+                ? null
+                : 'must be a non-empty array of names without spaces or commas';
+    }
+};
+
+// Values for every TEMPLATE_SETTINGS variable: the input's value if set, otherwise the default
+const resolveTemplateSettings = (input: InputConfig): Record<string, string> => {
+    const resolved: Record<string, string> = {};
+    for (const setting of TEMPLATE_SETTINGS) {
+        const group = input[setting.group] as Record<string, SettingValue> | undefined;
+        const value = group?.[setting.key] ?? setting.default;
+        resolved[setting.env] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+    return resolved;
+};
+
+// Check a parsed input file, returning one message per problem, prefixed with its JSON path
+const validateInputConfig = (raw: unknown): string[] => {
+    const errors: string[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+    const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+    if (!isObject(raw)) {
+        return ['(root): must be a JSON object'];
+    }
+
+    for (const key of Object.keys(raw)) {
+        if (key !== '$schema' && !INPUT_KEYS.includes(key)) {
+            errors.push(unknownKeyMessage(key, key, INPUT_KEYS));
+        }
+    }
+
+    for (const key of ['siteUrl', 'apiUrl']) {
+        if (!(key in raw)) {
+            errors.push(`${key}: is required`);
+        } else if (!isNonEmptyString(raw[key]) || !isHttpUrl(raw[key])) {
+            errors.push(`${key}: must be an http:// or https:// URL`);
+        } else if (raw[key].endsWith('/')) {
+            errors.push(`${key}: must not end with a slash`);
+        }
+    }
+
+    for (const key of ['organization', 'project', 'dashboardUsername', 'dashboardPassword']) {
+        if (key in raw && !isNonEmptyString(raw[key])) {
+            errors.push(`${key}: must be a non-empty string`);
+        }
+    }
+
+    if ('additionalRedirectUrls' in raw) {
+        const urls = raw.additionalRedirectUrls;
+        if (!Array.isArray(urls)) {
+            errors.push('additionalRedirectUrls: must be an array of URLs');
+        } else {
+            urls.forEach((url, index) => {
+                // Any scheme is allowed so mobile deep links (myapp://callback) work; wildcards are Auth globs
+                if (!isNonEmptyString(url) || !/^[A-Za-z][A-Za-z0-9+.-]*:\/\/\S+$/.test(url)) {
+                    errors.push(`additionalRedirectUrls[${index}]: must be a URL such as https://example.com/callback`);
+                } else if (url.includes(',')) {
+                    errors.push(`additionalRedirectUrls[${index}]: must not contain a comma; list each URL separately`);
+                } else if (urls.indexOf(url) !== index) {
+                    errors.push(`additionalRedirectUrls[${index}]: "${url}" is listed more than once`);
+                }
+            });
+        }
+    }
+
+    if ('email' in raw) {
+        const email = raw.email;
+        if (!isObject(email)) {
+            errors.push('email: must be an object with from, host, port, user and pass');
+        } else {
+            for (const key of Object.keys(email)) {
+                if (!EMAIL_KEYS.includes(key)) {
+                    errors.push(unknownKeyMessage(`email.${key}`, key, EMAIL_KEYS));
+                }
+            }
+
+            // SMTP is all-or-nothing: a half-filled block renders a .env that looks valid but cannot send mail
+            const missing = EMAIL_REQUIRED_KEYS.filter(key => key === 'port' ? email.port === undefined : !isNonEmptyString(email[key]));
+            if (missing.length === EMAIL_REQUIRED_KEYS.length) {
+                errors.push('email: SMTP settings are empty; fill in from, host, port, user and pass, or remove the block to use the built-in mailer');
+            } else {
+                for (const key of missing) {
+                    errors.push(`email.${key}: is required when SMTP is configured`);
+                }
+                if (isNonEmptyString(email.from) && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.from)) {
+                    errors.push('email.from: must be an email address');
+                }
+                if (isNonEmptyString(email.host) && /[\s/:]/.test(email.host)) {
+                    errors.push('email.host: must be a host name without scheme or port');
+                }
+                if (email.port !== undefined && (!Number.isInteger(email.port) || (email.port as number) < 1 || (email.port as number) > 65535)) {
+                    errors.push('email.port: must be a port number between 1 and 65535');
+                }
+                if ('senderName' in email && !isNonEmptyString(email.senderName)) {
+                    errors.push('email.senderName: must be a non-empty string');
+                }
+            }
+        }
+    }
+
+    for (const group of SETTING_GROUPS) {
+        if (!(group in raw)) continue;
+        const values = raw[group];
+        if (!isObject(values)) {
+            errors.push(`${group}: must be an object`);
+            continue;
+        }
+        const settings = TEMPLATE_SETTINGS.filter(setting => setting.group === group);
+        for (const [key, value] of Object.entries(values)) {
+            const setting = settings.find(candidate => candidate.key === key);
+            const error = setting ? checkSettingValue(setting, value) : unknownKeyMessage(`${group}.${key}`, key, settings.map(candidate => candidate.key));
+            if (error) errors.push(setting ? `${group}.${key}: ${error}` : error);
+        }
+    }
+
+    if ('extraEnv' in raw) {
+        const extraEnv = raw.extraEnv;
+        if (!isObject(extraEnv)) {
+            errors.push('extraEnv: must be an object of VARIABLE_NAME: value');
+        } else {
+            for (const [name, value] of Object.entries(extraEnv)) {
+                const setting = TEMPLATE_SETTINGS.find(candidate => candidate.env === name);
+                if (!/^[A-Z_][A-Z0-9_]*$/.test(name)) {
+                    errors.push(`extraEnv.${name}: must be an upper-case variable name`);
+                } else if (setting) {
+                    errors.push(`extraEnv.${name}: set "${setting.group}.${setting.key}" instead`);
+                } else if (TEMPLATE_VARIABLES.includes(name)) {
+                    errors.push(`extraEnv.${name}: is written by generate and cannot be overridden here`);
+                } else if (!['string', 'number', 'boolean'].includes(typeof value)) {
+                    errors.push(`extraEnv.${name}: must be a string, number or boolean`);
+                } else if (/["\\\r\n]/.test(String(value))) {
+                    errors.push(`extraEnv.${name}: must not contain quotes, backslashes or line breaks`);
+                }
+            }
+        }
+    }
+
+    return errors;
+};
+
+// Read and validate an input file. Throws with every problem listed if it is invalid.
+const loadInputConfig = (inputPath: string): InputConfig => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`${inputPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors = validateInputConfig(raw);
+    if (errors.length > 0) {
+        throw new Error(`Invalid ${inputPath}:\n${errors.map(error => `  • ${error}`).join('\n')}`);
+    }
+
+    const { $schema, ...input } = raw as InputConfig & { $schema?: string };
+    return input;
+};
+
+// === SECRETS ===
+
+// Secrets generate keeps from an existing .env, grouped by what `rotate` replaces together
+const SECRET_GROUPS: Record<string, { keys: string[]; services: string[]; note?: string }> = {
+    'jwt': {
+        keys: ['JWT_SECRET', 'ANON_KEY', 'SERVICE_ROLE_KEY'],
+        services: ['db', 'auth', 'rest', 'realtime', 'storage', 'functions', 'kong', 'studio'],
+        note: 'Tokens signed with the old secret stop working; update every client using the old anon or service role key.'
+    },
+    'postgres-password': {
+        keys: ['POSTGRES_PASSWORD'],
+        services: ['auth', 'rest', 'realtime', 'storage', 'meta', 'functions', 'analytics', 'supavisor', 'studio'],
+        note: 'The .env value does not change an existing database. Run ALTER ROLE ... PASSWORD for postgres, supabase_admin, authenticator, pgbouncer, supabase_auth_admin, supabase_functions_admin and supabase_storage_admin with the new value before restarting.'
+    },
+    'dashboard-password': {
+        keys: ['DASHBOARD_PASSWORD'],
+        services: ['kong']
+    },
+    'vault-key': {
+        keys: ['VAULT_ENC_KEY'],
+        services: ['supavisor'],
+        note: 'Data the pooler encrypted with the old key can no longer be read; the pooler tenant is re-created on restart.'
+    },
+    'secret-key-base': {
+        keys: ['SECRET_KEY_BASE'],
+        services: ['realtime', 'supavisor']
+    }
+};
+
+// Parse KEY=value / KEY="value" lines of a .env file
+const parseEnvFile = (content: string): Record<string, string> => {
+    const values: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+        if (!match) continue;
+        let value = match[2]!.trim();
+        if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value.endsWith(value[0])) {
+            value = value.slice(1, -1);
+        }
+        values[match[1]!] = value;
+    }
+    return values;
+};
+
+const signSupabaseKey = (role: string, jwtSecret: string) => jwt.sign({
+    role,
+    iss: "supabase",
+    exp: Math.floor(Date.now() / 1000) + (60 * 60 * 24 * 365 * 10), // 10 years
+    iat: Math.floor(Date.now() / 1000)
+}, jwtSecret);
+
+// An API key is only reusable if it was signed with the current JWT secret
+const isKeySignedWith = (token: string, jwtSecret: string) => {
+    try {
+        jwt.verify(token, jwtSecret);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const generateSecret = (key: string): string => {
+    switch (key) {
+        case 'POSTGRES_PASSWORD':
+        case 'DASHBOARD_PASSWORD':
+            return crypto.randomUUID().toString();
+        case 'VAULT_ENC_KEY':
+            return crypto.randomBytes(64).toString('hex');
+        default:
+            return crypto.randomBytes(32).toString('hex');
+    }
+};
+
+// Keep existing secrets, generate the missing ones and re-sign API keys that no longer match the JWT secret
+const resolveSecrets = (existing: Record<string, string>, rotate: string[] = []) => {
+    const secrets: Record<string, string> = {};
+    const generated: string[] = [];
+    const rotated = new Set(rotate.flatMap(group => SECRET_GROUPS[group]!.keys));
+
+    for (const key of ['POSTGRES_PASSWORD', 'JWT_SECRET', 'VAULT_ENC_KEY', 'SECRET_KEY_BASE', 'DASHBOARD_PASSWORD']) {
+        const current = existing[key];
+        if (current && !rotated.has(key)) {
+            secrets[key] = current;
+        } else {
+            secrets[key] = generateSecret(key);
+            generated.push(key);
+        }
+    }
+
+    const jwtSecret = secrets.JWT_SECRET!;
+    for (const [key, role] of [['ANON_KEY', 'anon'], ['SERVICE_ROLE_KEY', 'service_role']] as const) {
+        const current = existing[key];
+        if (current && !rotated.has(key) && isKeySignedWith(current, jwtSecret)) {
+            secrets[key] = current;
+        } else {
+            secrets[key] = signSupabaseKey(role, jwtSecret);
+            generated.push(key);
+        }
+    }
+
+    return {secrets, generated};
+};
+
+const readExistingEnv = (envPath: string) =>
+    fs.existsSync(envPath) ? parseEnvFile(fs.readFileSync(envPath, 'utf-8')) : {};
 
 const compileTemplate = (inputPath: string) => {
     try {
-        // Read and parse the JSON input
-        const inputData = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
-
-        // Automatically generate some secrets (big letters)
-        const POSTGRES_PASSWORD = crypto.randomUUID().toString();
-        const JWT_SECRET = crypto.randomBytes(32).toString('hex');
-        const ANON_KEY = jwt.sign({
-            role: "anon",
-            iss: "supabase",
-            exp: Math.floor(Date.now() / 1000) + (60 * 60 * 24 * 365 * 10), // 10 years
-            iat: Math.floor(Date.now() / 1000)
-        }, JWT_SECRET);
-        const SERVICE_ROLE_KEY = jwt.sign({
-            role: "service_role",
-            iss: "supabase",
-            exp: Math.floor(Date.now() / 1000) + (60 * 60 * 24 * 365 * 10), // 10 years
-            iat: Math.floor(Date.now() / 1000)
-        }, JWT_SECRET);
-        const VAULT_ENC_KEY = crypto.randomBytes(64).toString('hex');
-        const SECRET_KEY_BASE = crypto.randomBytes(32).toString('hex');
-
-        const DASHBOARD_USERNAME = inputData.dashboardUsername || 'admin';
-        const DASHBOARD_PASSWORD = inputData.dashboardPassword || crypto.randomUUID().toString();
+        // Read and validate the JSON input; nothing is written if it has problems
+        let inputData: InputConfig;
+        try {
+            inputData = loadInputConfig(inputPath);
+        } catch (error) {
+            console.error(chalk.red(`✗ ${error instanceof Error ? error.message : error}`));
+            process.exitCode = 1;
+            return;
+        }
+
+        // Reuse the secrets of an existing .env so re-running generate does not invalidate a running stack
+        const outputPath = `${loadProjectConfig().projectDir}/.env`;
+        const existing = readExistingEnv(outputPath);
+        const {secrets, generated} = resolveSecrets(existing);
+
+        // An explicit dashboard password in the input always wins
+        if (inputData.dashboardPassword) {
+            secrets.DASHBOARD_PASSWORD = inputData.dashboardPassword;
+        }
+        const DASHBOARD_USERNAME = inputData.dashboardUsername || existing.DASHBOARD_USERNAME || 'admin';
 
         // Merge all variables into a single data object
         const data = {
-            POSTGRES_PASSWORD,
-            JWT_SECRET,
-            ANON_KEY,
-            SERVICE_ROLE_KEY,
+            ...secrets,
             DASHBOARD_USERNAME,
-            DASHBOARD_PASSWORD,
-            SECRET_KEY_BASE,
-            VAULT_ENC_KEY,
             ...inputData,
+            settings: resolveTemplateSettings(inputData),
         };
 
         // Generate the output content
         const outputContent = TEMPLATE({ data });
 
         // Write the output to the specified file
-        const outputPath = 'supabase-project/.env';
         fs.writeFileSync(outputPath, outputContent);
 
+        if (Object.keys(existing).length > 0) {
+            const kept = Object.keys(secrets).filter(key => !generated.includes(key));
+            if (kept.length > 0) console.log(chalk.blue(`Kept existing secrets: ${kept.join(', ')}`));
+            if (generated.length > 0) console.log(chalk.yellow(`Generated missing secrets: ${generated.join(', ')}`));
+        }
         console.log(chalk.green(`Successfully generated output at ${outputPath}`));
     } catch (error) {
         console.error(chalk.red('Error during template compilation:'), error);
     }
 }
 
+// Replace selected secrets in the existing .env, leaving every other line untouched
+const rotateSecrets = (groups: string[], options: any) => {
+    try {
+        const selected = options.all ? Object.keys(SECRET_GROUPS) : groups;
+        if (selected.length === 0) {
+            console.error(chalk.red(`✗ Name the secrets to rotate (${Object.keys(SECRET_GROUPS).join(', ')}) or pass --all`));
+            process.exitCode = 1;
+            return;
+        }
+        const unknown = selected.filter(group => !SECRET_GROUPS[group]);
+        if (unknown.length > 0) {
+            console.error(chalk.red(`✗ Unknown secret(s): ${unknown.join(', ')}. Expected one of: ${Object.keys(SECRET_GROUPS).join(', ')}`));
+            process.exitCode = 1;
+            return;
+        }
+
+        const envPath = `${loadProjectConfig().projectDir}/.env`;
+        if (!fs.existsSync(envPath)) {
+            console.error(chalk.red(`✗ ${envPath} not found. Run generate first.`));
+            process.exitCode = 1;
+            return;
+        }
+
+        const content = fs.readFileSync(envPath, 'utf-8');
+        const {secrets} = resolveSecrets(parseEnvFile(content), selected);
+        const keys = selected.flatMap(group => SECRET_GROUPS[group]!.keys);
+
+        // Keep a copy of the previous values before touching anything
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const backupPath = `${envPath}.backup-${timestamp}`;
+        fs.copyFileSync(envPath, backupPath);
+
+        let updated = content;
+        for (const key of keys) {
+            const line = `${key}="${secrets[key]}"`;
+            const pattern = new RegExp(`^\\s*${key}\\s*=.*$`, 'm');
+            updated = pattern.test(updated)
+                ? updated.replace(pattern, () => line)
+                : `${updated.replace(/\n?$/, '\n')}${line}\n`;
+        }
+        fs.writeFileSync(envPath, updated);
+
+        console.log(chalk.blue(`Previous .env saved to ${backupPath}`));
+        console.log(chalk.green(`✓ Rotated: ${keys.join(', ')}`));
+
+        const services = [...new Set(selected.flatMap(group => SECRET_GROUPS[group]!.services))];
+        console.log(chalk.yellow(`Restart these services to pick up the new values: ${services.join(', ')}`));
+        console.log(chalk.blue(`  docker compose up -d --force-recreate ${services.join(' ')}`));
+        for (const group of selected) {
+            const note = SECRET_GROUPS[group]!.note;
+            if (note) console.log(chalk.yellow(`⚠️  ${group}: ${note}`));
+        }
+    } catch (error) {
+        console.error(chalk.red('Error rotating secrets:'), error);
+        process.exitCode = 1;
+    }
+}
+
 const create = () => {
     try {
         // Generate input.json, which would need to be filled out by the user
+        // SMTP is left out: an empty block would render a broken mailer config. See input.schema.json for the "email" block.
         const exampleInput = {
+            $schema: `./${INPUT_SCHEMA_PATH}`,
             siteUrl: "http://localhost:3000",
             apiUrl: "http://localhost:8000",
             organization: "My Organization",
             project: "My Project",
-            additionalRedirectUrls: ["http://localhost:3000/callback"],
-            email: {
-                from: "",
-                host: "",
-                port: 587,
-                user: "",
-                pass: "",
-                senderName: "My App"
-            }
+            additionalRedirectUrls: ["http://localhost:3000/callback"]
         };
 
         const inputPath = 'input.json';
 
+        // Ship the schema next to the input so editors can autocomplete and check it
+        fs.writeFileSync(INPUT_SCHEMA_PATH, JSON.stringify(inputSchema, null, 2) + '\n');
+
         if(!fs.existsSync(inputPath)) {
             fs.writeFileSync(inputPath, JSON.stringify(exampleInput, null, 2));
             console.log(chalk.green(`Created example input file at ${inputPath}. Please fill it out before running the generate command.`));
@@ -156,25 +813,34 @@ const init = async () => {
     console.log(chalk.blue('Running initial setup...'));
 
     try {
+        // Write the project config first, so an existing one decides where everything goes
+        if (!fs.existsSync(PROJECT_CONFIG_PATH)) {
+            const { environments, ...defaults } = defaultProjectConfig();
+            fs.writeFileSync(PROJECT_CONFIG_PATH, JSON.stringify({ ...defaults, environments: {} }, null, 2) + '\n');
+            console.log(chalk.green(`Created project config at ${PROJECT_CONFIG_PATH}`));
+        } else {
+            console.log(chalk.yellow(`Using existing project config ${PROJECT_CONFIG_PATH}`));
+        }
+        const config = loadProjectConfig();
+
         // Get the latest supabase project
         await $`git clone --depth 1 https://github.com/supabase/supabase`;
 
         // Create supabase project directory
-        await fs.mkdir('supabase-project', { recursive: true });
+        await fs.mkdir(config.projectDir, { recursive: true });
 
         // Copy necessary files from the cloned repo to the project directory
-        await $`cp -rf supabase/docker/* supabase-project/`;
+        await $`cp -rf supabase/docker/* ${config.projectDir}/`;
 
         // Remove the cloned supabase repo to clean up
         await fs.rm('supabase', { recursive: true, force: true });
 
-        // Create folder postgres
-        await fs.mkdir('supabase-project/postgres', { recursive: true });
+        // Create the schema folder
+        await fs.mkdir(config.schemaDir, { recursive: true });
 
-        // Generate files (base, constraints, data, enums, functions, genesis, pre, triggers, views)
-        const sqlFiles = ['base', 'constraints', 'data', 'enums', 'functions', 'genesis', 'pre', 'triggers', 'views'];
-        for (const file of sqlFiles) {
-            await fs.writeFile(`supabase-project/postgres/${file}.sql`, `-- ${file}.sql\n\n`);
+        // Generate one file per schema area (pre, enums, base, constraints, ...)
+        for (const file of config.schemaFiles) {
+            await fs.writeFile(`${config.schemaDir}/${file}.sql`, `-- ${file}.sql\n\n`);
         }
 
         console.log(chalk.green('Initial setup completed. You can now run the create command to generate an input file.'));
@@ -183,528 +849,4339 @@ const init = async () => {
     }
 }
 
-const deploy = async (options: any) => {
-    try {
-        console.log(chalk.blue('Starting deployment...'));
-
-        // Compile sql files into one single file
-        const sqlFiles = [
-            'pre',
-            'enums',
-            'base',
-            'constraints',
-            'genesis',
-            'functions',
-            'triggers',
-            'views',
-            'data'
-        ];
-        let combinedSql = '';
-        for (const file of sqlFiles) {
-            const filePath = `supabase-project/postgres/${file}.sql`;
-            if (fs.existsSync(filePath)) {
-                const content = fs.readFileSync(filePath, 'utf-8');
-                combinedSql += `\n-- ${file}.sql\n${content}\n`;
-            }
-        }
-        const combinedSqlPath = 'supabase-project/postgres/combined.sql';
-        fs.writeFileSync(combinedSqlPath, combinedSql);
-        console.log(chalk.green(`Combined SQL written to ${combinedSqlPath}`));
-
-        let usingEnv = true;
-        let usingOptions = true;
-
-        // Check if any options are provided
-        if (!options.host && !options.port && !options.user && !options.database) {
-            usingEnv = true;
-            usingOptions = false;
-        } else {
-            usingEnv = false;
-            usingOptions = true;
-        }
+// === CONNECTION RESOLUTION ===
+// Every database command resolves its connection here. Each setting comes from the first source that has it:
+// command-line flags, --url, --env (a named environment in the project config), DATABASE_URL, the
+// POSTGRES_* / PGSSL* environment variables, then defaults. A missing password is looked up in .pgpass.
+
+const SSL_MODES = ['disable', 'allow', 'prefer', 'require', 'verify-ca', 'verify-full'] as const;
+type SslMode = typeof SSL_MODES[number];
+
+interface ConnectionSettings {
+    host: string;
+    port: string;
+    user: string;
+    database: string;
+    password: string;
+    sslMode?: SslMode;
+    sslRootCert?: string;
+}
 
-        // Check if options are provided and completed
-        if (usingOptions && (!options.host || !options.port || !options.user || !options.database)) {
-            console.error(chalk.red('Please provide all required database connection options: host, port, user, database.'));
-            console.log(chalk.yellow("It is recommended to pass these as environment variables directly before the command instead, e.g.:"));
-            console.log(chalk.yellow("POSTGRES_HOST=localhost POSTGRES_PORT=5432 POSTGRES_USER=postgres POSTGRES_DB=postgres <bootstrappper-app> deploy"));
-            return;
-        }
+type ConnectionKey = keyof ConnectionSettings;
 
-        if (usingEnv) {
-            // Check environment variables
-            const requiredEnvVars = [
-                'POSTGRES_HOST',
-                'POSTGRES_PORT',
-                'POSTGRES_USER',
-                'POSTGRES_DB'
-            ];
+// Settings are shown under their libpq names
+const connectionKeyLabel = (key: ConnectionKey) => ({ sslMode: 'sslmode', sslRootCert: 'sslrootcert' } as Record<string, string>)[key] ?? key;
 
-            for (const varName of requiredEnvVars) {
-                if (!process.env[varName]) {
-                    console.error(chalk.red(`Environment variable ${varName} is not set. Please set it before running the deploy command.`));
-                    return;
-                }
-            }
-        }
+interface ConnectionLayer {
+    values: Partial<Record<ConnectionKey, string | undefined>>;
+    source: (key: ConnectionKey) => string;
+}
 
-        const host = usingEnv ? process.env.POSTGRES_HOST : options.host;
-        const port = usingEnv ? process.env.POSTGRES_PORT : options.port;
-        const user = usingEnv ? process.env.POSTGRES_USER : options.user;
-        const database = usingEnv ? process.env.POSTGRES_DB : options.database;
-        const password = process.env.POSTGRES_PASSWORD; // Always from env for security
+// Read the settings carried by a postgres:// connection string
+const parseConnectionUrl = (url: string): Partial<Record<ConnectionKey, string>> => {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'postgres:' && parsed.protocol !== 'postgresql:') {
+        throw new Error(`Unsupported connection string protocol "${parsed.protocol}". Use postgres:// or postgresql://.`);
+    }
+    return {
+        host: parsed.hostname ? decodeURIComponent(parsed.hostname) : undefined,
+        port: parsed.port || undefined,
+        user: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+        password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+        database: parsed.pathname.length > 1 ? decodeURIComponent(parsed.pathname.slice(1)) : undefined,
+        sslMode: parsed.searchParams.get('sslmode') ?? undefined,
+        sslRootCert: parsed.searchParams.get('sslrootcert') ?? undefined
+    } as Partial<Record<ConnectionKey, string>>;
+};
 
-        if(!password) {
-            console.error(chalk.red('Environment variable POSTGRES_PASSWORD is not set. Please set it before running the deploy command.'));
-            return;
+// Split a .pgpass line on unescaped colons, unescaping \: and \\
+const parsePgpassLine = (line: string) => {
+    const fields: string[] = [];
+    let current = '';
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i]!;
+        if (char === '\\' && i + 1 < line.length) {
+            current += line[++i];
+        } else if (char === ':') {
+            fields.push(current);
+            current = '';
+        } else {
+            current += char;
         }
+    }
+    fields.push(current);
+    return fields;
+};
 
-        console.log(chalk.blue(`Deploying to database ${database} at ${host}:${port} as user ${user}...`));
-
-        // Construct psql command with proper Docker volume mounting
-        const absoluteCombinedSqlPath = require('path').resolve(combinedSqlPath);
+// Look up a password the way libpq does: the first matching line of ~/.pgpass (or $PGPASSFILE) wins, `*` matches anything
+const lookupPgpass = (host: string, port: string, database: string, user: string): string | null => {
+    const pgpassPath = process.env.PGPASSFILE ?? path.join(os.homedir(), '.pgpass');
+    if (!fs.existsSync(pgpassPath)) return null;
 
-        // Run postgres docker container with proper Bun $ syntax
-        await $`docker run --rm -i -v ${absoluteCombinedSqlPath}:/sql/combined.sql -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -f /sql/combined.sql`;
+    for (const line of fs.readFileSync(pgpassPath, 'utf-8').split(/\r?\n/)) {
+        if (line.trim().length === 0 || line.startsWith('#')) continue;
+        const fields = parsePgpassLine(line);
+        if (fields.length < 5) continue;
 
-        console.log(chalk.green('Deployment completed successfully.'));
-    } catch (error) {
-        console.error(chalk.red('Error during deployment:'), error);
+        const [entryHost, entryPort, entryDatabase, entryUser, entryPassword] = fields;
+        const matches = (pattern: string | undefined, value: string) => pattern === '*' || pattern === value;
+        if (matches(entryHost, host) && matches(entryPort, port) && matches(entryDatabase, database) && matches(entryUser, user)) {
+            return entryPassword ?? '';
+        }
     }
-}
+    return null;
+};
 
-const backup = async (options: any) => {
-    try {
-        console.log(chalk.blue('Starting backup...'));
+const CONNECTION_DEFAULTS: Partial<Record<ConnectionKey, string>> = {
+    host: 'localhost',
+    port: '5432',
+    user: 'postgres',
+    database: 'postgres'
+};
 
-        // Check if any options are provided
-        let usingEnv = true;
-        let usingOptions = false;
+// Where progress messages go. Commands that print a machine-readable report pass console.error, so stdout
+// holds only the report.
+type Logger = (...messages: unknown[]) => void;
+
+// The flags withConnectionOptions registers
+interface ConnectionOptions {
+    host?: string;
+    port?: string;
+    user?: string;
+    database?: string;
+    url?: string;
+    env?: string;
+    sslmode?: string;
+    sslrootcert?: string;
+}
 
-        if (!options.host && !options.port && !options.user && !options.database) {
-            usingEnv = true;
-            usingOptions = false;
-        } else {
-            usingEnv = false;
-            usingOptions = true;
-        }
+// Resolve the connection for a command and print where each setting came from. Returns null (after
+// explaining why) when the settings are incomplete or invalid.
+const resolveConnection = (options: ConnectionOptions, commandName: string, log: Logger = console.log): ConnectionSettings | null => {
+    const layers: ConnectionLayer[] = [];
+
+    layers.push({
+        values: {
+            host: options.host,
+            port: options.port,
+            user: options.user,
+            database: options.database,
+            sslMode: options.sslmode,
+            sslRootCert: options.sslrootcert
+        },
+        source: key => `--${connectionKeyLabel(key)} flag`
+    });
 
-        // Check if options are provided and completed
-        if (usingOptions && (!options.host || !options.port || !options.user || !options.database)) {
-            console.error(chalk.red('Please provide all required database connection options: host, port, user, database.'));
-            console.log(chalk.yellow("It is recommended to pass these as environment variables directly before the command instead, e.g.:"));
-            console.log(chalk.yellow("POSTGRES_HOST=localhost POSTGRES_PORT=5432 POSTGRES_USER=postgres POSTGRES_DB=postgres <bootstrappper-app> backup"));
-            return;
+    try {
+        if (options.url) {
+            layers.push({ values: parseConnectionUrl(options.url), source: () => '--url' });
         }
 
-        if (usingEnv) {
-            // Check environment variables
-            const requiredEnvVars = [
-                'POSTGRES_HOST',
-                'POSTGRES_PORT',
-                'POSTGRES_USER',
-                'POSTGRES_DB'
-            ];
+        if (options.env) {
+            const environments = loadProjectConfig().environments;
+            const environment = environments[options.env];
+            if (!environment) {
+                const available = Object.keys(environments);
+                console.error(chalk.red(`Environment "${options.env}" is not defined in ${PROJECT_CONFIG_PATH}.`));
+                log(chalk.yellow(available.length > 0 ? `Available environments: ${available.join(', ')}` : `Add it under "environments" in ${PROJECT_CONFIG_PATH}.`));
+                return null;
+            }
 
-            for (const varName of requiredEnvVars) {
-                if (!process.env[varName]) {
-                    console.error(chalk.red(`Environment variable ${varName} is not set. Please set it before running the backup command.`));
-                    return;
-                }
+            const source = () => `environment "${options.env}" (${PROJECT_CONFIG_PATH})`;
+            layers.push({
+                values: {
+                    host: environment.host,
+                    port: environment.port?.toString(),
+                    user: environment.user,
+                    database: environment.database,
+                    password: environment.passwordEnv ? process.env[environment.passwordEnv] : undefined,
+                    sslMode: environment.sslmode,
+                    sslRootCert: environment.sslrootcert
+                },
+                source: key => key === 'password' ? `${environment.passwordEnv} via ${source()}` : source()
+            });
+            if (environment.url) {
+                layers.push({ values: parseConnectionUrl(environment.url), source: () => `url of ${source()}` });
             }
         }
 
-        const host = usingEnv ? process.env.POSTGRES_HOST : options.host;
-        const port = usingEnv ? process.env.POSTGRES_PORT : options.port;
-        const user = usingEnv ? process.env.POSTGRES_USER : options.user;
-        const database = usingEnv ? process.env.POSTGRES_DB : options.database;
-        const password = process.env.POSTGRES_PASSWORD; // Always from env for security
-
-        if(!password) {
-            console.error(chalk.red('Environment variable POSTGRES_PASSWORD is not set. Please set it before running the backup command.'));
-            return;
+        if (process.env.DATABASE_URL) {
+            layers.push({ values: parseConnectionUrl(process.env.DATABASE_URL), source: () => 'DATABASE_URL' });
         }
+    } catch (error) {
+        console.error(chalk.red('Invalid connection string:'), error instanceof Error ? error.message : error);
+        return null;
+    }
 
-        console.log(chalk.blue(`Backing up database ${database} at ${host}:${port} as user ${user}...`));
+    const envVars: Record<ConnectionKey, string> = {
+        host: 'POSTGRES_HOST',
+        port: 'POSTGRES_PORT',
+        user: 'POSTGRES_USER',
+        database: 'POSTGRES_DB',
+        password: 'POSTGRES_PASSWORD',
+        sslMode: 'PGSSLMODE',
+        sslRootCert: 'PGSSLROOTCERT'
+    };
+    layers.push({
+        values: Object.fromEntries(Object.entries(envVars).map(([key, name]) => [key, process.env[name]])),
+        source: key => envVars[key]
+    });
+    layers.push({ values: CONNECTION_DEFAULTS, source: () => 'default' });
+
+    const resolved: Partial<Record<ConnectionKey, string>> = {};
+    const sources: Partial<Record<ConnectionKey, string>> = {};
+    for (const key of Object.keys(envVars) as ConnectionKey[]) {
+        const layer = layers.find(candidate => candidate.values[key] !== undefined && candidate.values[key] !== '');
+        if (layer) {
+            resolved[key] = layer.values[key];
+            sources[key] = layer.source(key);
+        }
+    }
 
-        // Ensure migration directory exists
-        const migrationDir = 'supabase-project/migrations';
-        await fs.mkdir(migrationDir, { recursive: true });
+    if (resolved.password === undefined) {
+        const password = lookupPgpass(resolved.host!, resolved.port!, resolved.database!, resolved.user!);
+        if (password !== null) {
+            resolved.password = password;
+            sources.password = '.pgpass';
+        }
+    }
 
-        // Create timestamped folder
-        const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
-        const backupDir = `${migrationDir}/backup_${timestamp}`;
-        await fs.mkdir(backupDir, { recursive: true });
+    if (!/^\d+$/.test(resolved.port!)) {
+        console.error(chalk.red(`Invalid port "${resolved.port}" (from ${sources.port}).`));
+        return null;
+    }
 
-        // Get absolute paths for Docker volume mounting
-        const absoluteBackupDir = require('path').resolve(backupDir);
+    if (resolved.sslMode !== undefined && !(SSL_MODES as readonly string[]).includes(resolved.sslMode)) {
+        console.error(chalk.red(`Invalid sslmode "${resolved.sslMode}" (from ${sources.sslMode}). Use one of: ${SSL_MODES.join(', ')}.`));
+        return null;
+    }
 
-        console.log(chalk.blue(`Targeting public schema only. Backup files will be stored in ${backupDir}`));
+    if (resolved.sslRootCert !== undefined && !fs.existsSync(resolved.sslRootCert)) {
+        console.error(chalk.red(`CA certificate ${resolved.sslRootCert} (from ${sources.sslRootCert}) does not exist.`));
+        return null;
+    }
 
-        // Run pg_dump commands with proper Bun $ template syntax
-        console.log(chalk.blue('Acquiring pre-data schema...'));
-        await $`docker run --rm -v ${absoluteBackupDir}:/backup -e PGPASSWORD=${password} postgres pg_dump --schema=public --section=pre-data -h ${host} -p ${port} -U ${user} -d ${database} -s -f /backup/schema-pre.sql`;
+    if (resolved.password === undefined) {
+        console.error(chalk.red(`No database password found for the ${commandName} command.`));
+        log(chalk.yellow('Set POSTGRES_PASSWORD, include it in --url or DATABASE_URL, set "passwordEnv" for the environment, or add a matching .pgpass entry.'));
+        return null;
+    }
 
-        console.log(chalk.blue('Acquiring post-data-schema...'));
-        await $`docker run --rm -v ${absoluteBackupDir}:/backup -e PGPASSWORD=${password} postgres pg_dump --schema=public --section=post-data -h ${host} -p ${port} -U ${user} -d ${database} -s -f /backup/schema-post.sql`;
+    log(chalk.blue('Connection settings:'));
+    for (const key of Object.keys(envVars) as ConnectionKey[]) {
+        if (resolved[key] === undefined) continue;
+        const value = key === 'password' ? '********' : resolved[key];
+        log(chalk.blue(`  ${connectionKeyLabel(key).padEnd(12)}${value!.padEnd(30)} (${sources[key]})`));
+    }
 
-        console.log(chalk.blue('Acquiring data dump...'));
-        await $`docker run --rm -v ${absoluteBackupDir}:/backup -e PGPASSWORD=${password} postgres pg_dump --schema=public -h ${host} -p ${port} -U ${user} -d ${database} -a --column-inserts --data-only -f /backup/data.sql`;
+    return resolved as unknown as ConnectionSettings;
+};
 
+// Extra `docker run` arguments that carry the SSL settings into a psql/pg_dump container
+const dockerSslArgs = (connection: ConnectionSettings): string[] => {
+    const args: string[] = [];
+    if (connection.sslMode) {
+        args.push('-e', `PGSSLMODE=${connection.sslMode}`);
+    }
+    if (connection.sslRootCert) {
+        args.push('-v', `${path.resolve(connection.sslRootCert)}:/certs/root.crt:ro`, '-e', 'PGSSLROOTCERT=/certs/root.crt');
+    }
+    return args;
+};
+
+// TLS settings for the native driver. It can't fall back to plaintext, so allow/prefer connect without TLS,
+// and it always checks the hostname, so verify-ca behaves like verify-full.
+const nativeTlsOptions = (connection: ConnectionSettings) => {
+    switch (connection.sslMode) {
+        case 'require':
+            return connection.sslRootCert ? { ca: fs.readFileSync(connection.sslRootCert, 'utf-8') } : { rejectUnauthorized: false };
+        case 'verify-ca':
+        case 'verify-full':
+            return connection.sslRootCert ? { ca: fs.readFileSync(connection.sslRootCert, 'utf-8') } : true;
+        default:
+            return false;
+    }
+};
+
+// Register the connection flags shared by every database command
+const withConnectionOptions = (command: Command) => command
+    .option("-h, --host <host>", "Database host (default: localhost)")
+    .option("-p, --port <port>", "Database port (default: 5432)")
+    .option("-u, --user <user>", "Database user (default: postgres)")
+    .option("-d, --database <database>", "Database name (default: postgres)")
+    .option("--url <url>", "postgres:// connection string (or set DATABASE_URL)")
+    .option("--env <name>", `Named environment from ${PROJECT_CONFIG_PATH}`)
+    .option("--sslmode <mode>", `SSL mode: ${SSL_MODES.join(', ')}`)
+    .option("--sslrootcert <path>", "CA certificate used to verify the server");
+
+// === DATABASE CLIENT ===
+// Queries and SQL scripts go through a DatabaseClient. The native executor talks to Postgres in-process
+// with Bun's SQL driver; the psql executor keeps the original route of running psql in a Docker container.
+
+type ExecutorKind = 'native' | 'psql';
+
+interface DatabaseClient {
+    executor: ExecutorKind;
+    connection: ConnectionSettings;
+    // Run a single row-returning statement and return its rows
+    query: <T = Record<string, unknown>>(sql: string) => Promise<T[]>;
+    // Run a SQL script statement by statement, stopping at the first error
+    execute: (script: string) => Promise<void>;
+    close: () => Promise<void>;
+}
+
+// Shows up as application_name in pg_stat_activity
+const APPLICATION_NAME = 'supabase-migration-tool';
+
+// Split a SQL script into statements, respecting quoted strings, dollar-quoted bodies and comments. Each
+// statement keeps the comments and whitespace before it, and `offset` is where that text starts in the script.
+const splitSqlStatementRanges = (script: string): { sql: string; offset: number }[] => {
+    const statements: { sql: string; offset: number }[] = [];
+    let start = 0;
+    let i = 0;
+
+    while (i < script.length) {
+        const char = script[i]!;
+        const next = script[i + 1];
+
+        if (char === '-' && next === '-') {
+            const end = script.indexOf('\n', i);
+            i = end === -1 ? script.length : end + 1;
+        } else if (char === '/' && next === '*') {
+            // Block comments nest in Postgres
+            let depth = 1;
+            i += 2;
+            while (i < script.length && depth > 0) {
+                if (script[i] === '/' && script[i + 1] === '*') {
+                    depth++;
+                    i += 2;
+                } else if (script[i] === '*' && script[i + 1] === '/') {
+                    depth--;
+                    i += 2;
+                } else {
+                    i++;
+                }
+            }
+        } else if (char === "'" || char === '"') {
+            // E'...' strings allow backslash escapes; everywhere else a doubled quote is the escape
+            const backslashEscapes = char === "'" && /[eE]/.test(script[i - 1] ?? '') && !/[A-Za-z0-9_]/.test(script[i - 2] ?? '');
+            i++;
+            while (i < script.length) {
+                if (backslashEscapes && script[i] === '\\') {
+                    i += 2;
+                } else if (script[i] === char && script[i + 1] === char) {
+                    i += 2;
+                } else if (script[i] === char) {
+                    i++;
+                    break;
+                } else {
+                    i++;
+                }
+            }
+        } else if (char === '$') {
+            const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(script.slice(i, i + 64));
+            if (tag && !/[A-Za-z0-9_]/.test(script[i - 1] ?? '')) {
+                const end = script.indexOf(tag[0], i + tag[0].length);
+                i = end === -1 ? script.length : end + tag[0].length;
+            } else {
+                i++;
+            }
+        } else if (char === ';') {
+            statements.push({ sql: script.slice(start, i + 1), offset: start });
+            start = ++i;
+        } else {
+            i++;
+        }
+    }
+    statements.push({ sql: script.slice(start), offset: start });
+
+    return statements.filter(statement => hasExecutableSql(statement.sql));
+};
+
+const splitSqlStatements = (script: string): string[] => splitSqlStatementRanges(script).map(statement => statement.sql.trim());
+
+// Why the native executor can't run a statement, or null when it can
+const nativeExecutorLimitation = (statement: string) => {
+    const command = statement.replace(/^(\s*--.*\n)*/, '').trimStart();
+    if (/^\\/.test(command)) {
+        return `psql meta-commands are not supported by the native executor (found "${command.split('\n')[0]}")`;
+    }
+    // The rows after COPY ... FROM stdin (as in pg_dump output) are data, not statements
+    if (/^COPY\b[^;]*\bFROM\s+STDIN\b/i.test(command)) {
+        return `COPY ... FROM stdin is not supported by the native executor (found "${command.split('\n')[0]}")`;
+    }
+    return null;
+};
+
+const createNativeClient = (connection: ConnectionSettings): DatabaseClient => {
+    // A single pooled connection, so BEGIN/COMMIT and session settings apply across calls
+    const sql = new SQL({
+        hostname: connection.host,
+        port: Number(connection.port),
+        username: connection.user,
+        password: connection.password,
+        database: connection.database,
+        tls: nativeTlsOptions(connection),
+        max: 1,
+        connection: { application_name: APPLICATION_NAME }
+    });
+
+    return {
+        executor: 'native',
+        connection,
+        query: async (text) => [...await sql.unsafe(text)],
+        execute: async (script) => {
+            const statements = splitSqlStatements(script);
+            // Check the whole script first, so nothing runs when part of it can't
+            for (const statement of statements) {
+                const limitation = nativeExecutorLimitation(statement);
+                if (limitation) {
+                    throw new Error(`${limitation}. Re-run with --executor psql.`);
+                }
+            }
+            for (const statement of statements) {
+                try {
+                    await sql.unsafe(statement).simple();
+                } catch (error) {
+                    // Leave the connection usable if the failure happened inside an explicit transaction
+                    await sql.unsafe('ROLLBACK').simple().catch(() => {});
+                    throw error;
+                }
+            }
+        },
+        close: () => sql.close()
+    };
+};
+
+const createPsqlClient = (connection: ConnectionSettings): DatabaseClient => {
+    const { host, port, user, database, password } = connection;
+
+    return {
+        executor: 'psql',
+        connection,
+        // psql has no structured output, so rows come back as one JSON document per line
+        query: async (text) => {
+            const wrapped = `SELECT row_to_json(q) FROM (${text.trim().replace(/;$/, '')}) q;`;
+            const result = await $`docker run --rm -e PGPASSWORD=${password} -e PGAPPNAME=${APPLICATION_NAME} ${dockerSslArgs(connection)} ${loadProjectConfig().dockerImage} psql -X -t -A -v ON_ERROR_STOP=1 -h ${host} -p ${port} -U ${user} -d ${database} -c ${wrapped}`.quiet();
+            return result.stdout.toString().split('\n').filter(line => line.trim().length > 0).map(line => JSON.parse(line));
+        },
+        execute: async (script) => {
+            await $`docker run --rm -i -e PGPASSWORD=${password} -e PGAPPNAME=${APPLICATION_NAME} ${dockerSslArgs(connection)} ${loadProjectConfig().dockerImage} psql -X -v ON_ERROR_STOP=1 -h ${host} -p ${port} -U ${user} -d ${database} -f - < ${new Response(script)}`;
+        },
+        close: async () => {}
+    };
+};
+
+const createDatabaseClient = (connection: ConnectionSettings, executor: string = 'native'): DatabaseClient => {
+    if (executor === 'psql') {
+        return createPsqlClient(connection);
+    }
+    if (executor !== 'native') {
+        throw new Error(`Unknown executor "${executor}". Use "native" or "psql".`);
+    }
+    return createNativeClient(connection);
+};
+
+// === DRY RUN ===
+// migrate, deploy and clean can list what they would run (--dry-run) or write it as one script (--emit-sql)
+// that a DBA can review and run by hand with psql. Neither changes the database.
+
+interface PlanStep {
+    label: string;
+    sql: string;
+}
+
+const printPlan = (title: string, steps: PlanStep[]) => {
+    console.log(chalk.blue(`\n${title}`));
+    if (steps.length === 0) {
+        console.log(chalk.blue('  (nothing to do)'));
+    }
+    const width = String(steps.length).length;
+    steps.forEach((step, index) => console.log(chalk.blue(`  ${String(index + 1).padStart(width)}. ${step.label}`)));
+};
+
+// The steps as one script, each under a numbered comment. A step whose last statement has no `;` gets one,
+// so it can't run into the next step.
+const planScript = (steps: PlanStep[]) => steps.map((step, index) => {
+    const sql = step.sql.trim();
+    return `\n-- ${index + 1}. ${step.label}\n${sql.endsWith(';') ? sql : `${sql}\n;`}\n`;
+}).join('');
+
+const writePlanScript = (file: string, command: string, connection: ConnectionSettings, script: string) => {
+    const header = [
+        `-- ${command} script for ${connection.database}@${connection.host}:${connection.port}`,
+        `-- Generated at ${new Date().toISOString()} by ${APPLICATION_NAME} ${TOOL_VERSION}`,
+        `-- Review it, then run it with: psql -v ON_ERROR_STOP=1 -f ${path.basename(file)}`
+    ].join('\n');
+    fs.ensureDirSync(path.dirname(file));
+    fs.writeFileSync(file, `${header}\n${script}`);
+    console.log(chalk.green(`✓ Wrote the ${command} script to ${file}`));
+};
+
+// === SCHEMA FILES ===
+// Each entry of schemaFiles is an area of the declarative schema: `<area>.sql`, a `<area>/` directory of .sql
+// files (read recursively, in path order), or both. Areas run in the configured order, and a file can name the
+// files it needs first with `-- depends: base/users.sql` lines in its header comment.
+
+const COMBINED_SQL_FILE = 'combined.sql';
+const COMBINED_MANIFEST_FILE = 'combined.manifest.json';
+const DEPENDS_HEADER = /^--\s*depends:\s*(.*)$/;
+
+interface SchemaFile {
+    // Relative to schemaDir, e.g. functions/auth/is_admin.sql
+    path: string;
+    area: string;
+    dependsOn: string[];
+    content: string;
+}
+
+interface SchemaFileSet {
+    // In the order they run
+    files: SchemaFile[];
+    // Areas with neither a file nor a directory
+    missing: string[];
+    errors: string[];
+    warnings: string[];
+}
+
+// The -- depends: entries in the comment block at the top of a file. Paths are relative to schemaDir, or to the
+// file itself when they start with ./ or ../, and may leave out the .sql.
+const schemaFileDependencies = (filePath: string, content: string) => {
+    const dependencies: string[] = [];
+    for (const line of content.split('\n')) {
+        const text = line.trim();
+        if (text === '') continue;
+        if (!text.startsWith('--')) break;
+
+        const match = DEPENDS_HEADER.exec(text);
+        for (const entry of match?.[1]!.split(/[\s,]+/).filter(Boolean) ?? []) {
+            const relative = entry.startsWith('./') || entry.startsWith('../') ? path.posix.join(path.posix.dirname(filePath), entry) : entry;
+            dependencies.push(path.posix.normalize(relative.endsWith('.sql') ? relative : `${relative}.sql`));
+        }
+    }
+    return dependencies;
+};
+
+const listSqlFiles = (dir: string, prefix: string): string[] => fs.readdirSync(dir).sort().flatMap(entry => {
+    if (entry.startsWith('.')) return [];
+    if (fs.statSync(`${dir}/${entry}`).isDirectory()) return listSqlFiles(`${dir}/${entry}`, `${prefix}/${entry}`);
+    return /\.sql$/i.test(entry) ? [`${prefix}/${entry}`] : [];
+});
+
+// Walk the remaining dependencies from each file that couldn't be placed, and report every distinct loop
+const findDependencyCycles = (blocked: SchemaFile[]) => {
+    const byPath = new Map(blocked.map(file => [file.path, file]));
+    const cycles = new Map<string, string[]>();
+    for (const start of blocked) {
+        const trail: string[] = [];
+        let current: SchemaFile | undefined = start;
+        while (current && !trail.includes(current.path)) {
+            trail.push(current.path);
+            current = current.dependsOn.map(dependency => byPath.get(dependency)).find(file => file !== undefined);
+        }
+        if (!current) continue;
+        const cycle = trail.slice(trail.indexOf(current.path));
+        cycles.set([...cycle].sort().join('\n'), [...cycle, current.path]);
+    }
+    return [...cycles.values()];
+};
+
+// Find the schema files and put them in run order: configured area order, then path order, moving a file after
+// anything it depends on
+const loadSchemaFiles = (config: ProjectConfig): SchemaFileSet => {
+    const set: SchemaFileSet = { files: [], missing: [], errors: [], warnings: [] };
+    const found: SchemaFile[] = [];
+
+    for (const area of config.schemaFiles) {
+        const paths = [
+            ...(fs.existsSync(`${config.schemaDir}/${area}.sql`) ? [`${area}.sql`] : []),
+            ...(fs.existsSync(`${config.schemaDir}/${area}`) && fs.statSync(`${config.schemaDir}/${area}`).isDirectory() ? listSqlFiles(`${config.schemaDir}/${area}`, area) : [])
+        ];
+        if (paths.length === 0) set.missing.push(area);
+        for (const filePath of paths) {
+            const content = fs.readFileSync(`${config.schemaDir}/${filePath}`, 'utf-8');
+            found.push({ path: filePath, area, dependsOn: schemaFileDependencies(filePath, content), content });
+        }
+    }
+
+    if (fs.existsSync(config.schemaDir)) {
+        const generated = [COMBINED_SQL_FILE, COMBINED_MANIFEST_FILE];
+        for (const entry of fs.readdirSync(config.schemaDir).sort()) {
+            const area = entry.replace(/\.sql$/, '');
+            if (!entry.startsWith('.') && !generated.includes(entry) && !config.schemaFiles.includes(area)) {
+                set.warnings.push(`${entry} is not in schemaFiles in ${PROJECT_CONFIG_PATH}, so deploy skips it`);
+            }
+        }
+    }
+
+    const byPath = new Map(found.map(file => [file.path, file]));
+    for (const file of found) {
+        for (const dependency of file.dependsOn) {
+            if (!byPath.has(dependency)) {
+                set.errors.push(`${file.path} depends on ${dependency}, which is not one of the schema files`);
+            }
+        }
+    }
+    if (set.errors.length > 0) return set;
+
+    const placed = new Set<string>();
+    while (set.files.length < found.length) {
+        const next = found.find(file => !placed.has(file.path) && file.dependsOn.every(dependency => placed.has(dependency)));
+        if (!next) {
+            for (const cycle of findDependencyCycles(found.filter(file => !placed.has(file.path)))) {
+                set.errors.push(`Dependency cycle: ${cycle.join(' → ')}`);
+            }
+            break;
+        }
+        set.files.push(next);
+        placed.add(next.path);
+    }
+    return set;
+};
+
+const printSchemaFileProblems = (config: ProjectConfig, set: SchemaFileSet) => {
+    set.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${config.schemaDir}: ${warning}`)));
+    set.errors.forEach(error => console.error(chalk.red(`✗ ${config.schemaDir}: ${error}`)));
+};
+
+// Join the schema files into one script, each under a comment naming its file, and describe where each one
+// ended up so an error at a line of combined.sql can be traced back to its file
+const combineSchemaFiles = (files: SchemaFile[]) => {
+    let sql = '';
+    const manifest = {
+        generatedAt: new Date().toISOString(),
+        toolVersion: TOOL_VERSION,
+        files: [] as { path: string; area: string; dependsOn: string[]; sha256: string; lines: [number, number] }[]
+    };
+    for (const file of files) {
+        sql += `\n-- ${file.path}\n`;
+        const startLine = sql.split('\n').length;
+        sql += `${file.content}\n`;
+        manifest.files.push({
+            path: file.path,
+            area: file.area,
+            dependsOn: file.dependsOn,
+            sha256: crypto.createHash('sha256').update(file.content).digest('hex'),
+            lines: [startLine, startLine + file.content.replace(/\n$/, '').split('\n').length - 1]
+        });
+    }
+    return { sql, manifest };
+};
+
+// === DEPLOY HISTORY ===
+// Every deploy is recorded with the hash of each schema file, so `deploy --changed-only` can re-run just the
+// areas that changed since. Areas in nonIdempotentSchemaFiles are refused on a database that has been
+// deployed to before, or that has tables in public but no history, unless --force is given.
+
+interface DeployedFile {
+    path: string;
+    area: string;
+    sha256: string;
+}
+
+interface DeployRecord {
+    deployedAt: string;
+    deployedBy: string | null;
+    gitCommit: string | null;
+    areas: string[];
+    files: DeployedFile[];
+}
+
+const deployTrackingTableSql = () => `
+    CREATE SCHEMA IF NOT EXISTS ${quoteIdent(loadProjectConfig().trackingTable.schema)};
+    CREATE TABLE IF NOT EXISTS ${deployTrackingTableName()} (
+        id BIGSERIAL PRIMARY KEY,
+        deployed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        deployed_by TEXT,
+        database_user TEXT NOT NULL DEFAULT current_user,
+        git_commit TEXT,
+        areas TEXT[] NOT NULL,
+        files JSONB NOT NULL,
+        tool_version VARCHAR(32)
+    );
+`;
+
+// A deploy history row as to_jsonb returns it
+interface DeployRow {
+    deployed_at: string;
+    deployed_by: string | null;
+    git_commit: string | null;
+    areas: string[] | null;
+    files: DeployedFile[] | null;
+}
+
+// The most recent deploy, or null when the database has never been deployed to
+const fetchLastDeploy = async (client: DatabaseClient): Promise<DeployRecord | null> => {
+    const [tracking] = await client.query<{ exists: boolean }>(`SELECT to_regclass(${quoteLiteral(deployTrackingTableName())}) IS NOT NULL AS exists`);
+    if (!tracking?.exists) {
+        return null;
+    }
+    const [last] = await client.query<{ deploy: DeployRow | string }>(`SELECT to_jsonb(d) AS deploy FROM ${deployTrackingTableName()} d ORDER BY id DESC LIMIT 1`);
+    if (!last) {
+        return null;
+    }
+    const row: DeployRow = typeof last.deploy === 'string' ? JSON.parse(last.deploy) : last.deploy;
+    return {
+        deployedAt: row.deployed_at,
+        deployedBy: row.deployed_by ?? null,
+        gitCommit: row.git_commit ?? null,
+        areas: row.areas ?? [],
+        files: row.files ?? []
+    };
+};
+
+// Tables in public other than the tool's own, so a database without deploy history can be told apart from an empty one
+const fetchExistingTables = async (client: DatabaseClient) => (await client.query<{ name: string }>(`
+    SELECT quote_ident(c.relname) AS name
+    FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p') AND NOT c.relispartition AND n.nspname = 'public'
+      AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+      AND c.oid IS DISTINCT FROM to_regclass(${quoteLiteral(trackingTableName())})
+      AND c.oid IS DISTINCT FROM to_regclass(${quoteLiteral(deployTrackingTableName())})
+      AND c.oid IS DISTINCT FROM to_regclass(${quoteLiteral(seedTrackingTableName())})
+    ORDER BY c.relname`)).map(row => row.name);
+
+// Areas with a file added, removed or edited since the given deploy
+const changedAreas = (areas: string[], files: DeployedFile[], last: DeployRecord) => areas.filter(area => {
+    const describe = (list: DeployedFile[]) => list.filter(file => file.area === area).map(file => `${file.path}:${file.sha256}`).sort().join('\n');
+    return describe(files) !== describe(last.files);
+});
+
+// The given areas plus every area with a file that depends on one of theirs, directly or through other
+// areas, in the order of `areas`. Re-running an area can drop and recreate what its dependents build on.
+const withDependentAreas = (areas: string[], changed: string[], files: SchemaFile[]) => {
+    const areaOf = new Map(files.map(file => [file.path, file.area]));
+    const rerun = new Set(changed);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const file of files) {
+            if (!rerun.has(file.area) && file.dependsOn.some(dependency => rerun.has(areaOf.get(dependency)!))) {
+                rerun.add(file.area);
+                grew = true;
+            }
+        }
+    }
+    return areas.filter(area => rerun.has(area));
+};
+
+// HEAD of the git checkout the schema files live in, or null outside one
+const currentGitCommit = async (dir: string) => {
+    const result = await $`git -C ${dir} rev-parse HEAD`.quiet().nothrow();
+    return result.exitCode === 0 ? result.stdout.toString().trim() : null;
+};
+
+const recordDeploySql = (areas: string[], files: DeployedFile[], gitCommit: string | null) => {
+    const deployedBy = process.env.USER || os.userInfo().username;
+    return `INSERT INTO ${deployTrackingTableName()} (deployed_by, git_commit, areas, files, tool_version) VALUES (${quoteLiteral(deployedBy)}, ${gitCommit ? quoteLiteral(gitCommit) : 'NULL'}, ARRAY[${areas.map(quoteLiteral).join(', ')}]::text[], ${quoteLiteral(JSON.stringify(files))}::jsonb, ${quoteLiteral(TOOL_VERSION)});`;
+};
+
+const describeDeploy = (deploy: DeployRecord) =>
+    `${deploy.deployedAt}${deploy.deployedBy ? ` by ${deploy.deployedBy}` : ''}${deploy.gitCommit ? ` (commit ${deploy.gitCommit.slice(0, 12)})` : ''}`;
+
+interface DeployOptions extends ConnectionOptions {
+    executor: string;
+    dryRun?: boolean;
+    emitSql?: string;
+    changedOnly?: boolean;
+    force?: boolean;
+}
+
+const deploy = async (options: DeployOptions) => {
+    try {
+        console.log(chalk.blue('Starting deployment...'));
+
+        // Compile sql files into one single file, in area order with dependencies first
+        const config = loadProjectConfig();
+        const schemaFiles = loadSchemaFiles(config);
+        printSchemaFileProblems(config, schemaFiles);
+        if (schemaFiles.errors.length > 0) {
+            process.exitCode = 1;
+            return;
+        }
+        const files: DeployedFile[] = combineSchemaFiles(schemaFiles.files).manifest.files.map(file => ({ path: file.path, area: file.area, sha256: file.sha256 }));
+        const areas = config.schemaFiles.filter(area => !schemaFiles.missing.includes(area));
+
+        const connection = resolveConnection(options, 'deploy');
+        if (!connection) {
+            return;
+        }
+        const { host, port, user, database } = connection;
+
+        // A preview of a full deploy needs nothing from the database, so it works where the tool can't connect
+        const preview = options.dryRun || options.emitSql;
+        const client = preview && !options.changedOnly ? null : createDatabaseClient(connection, options.executor);
+        try {
+            const lastDeploy = client ? await fetchLastDeploy(client) : null;
+
+            let runAreas = areas;
+            if (options.changedOnly && lastDeploy) {
+                const changed = changedAreas(areas, files, lastDeploy);
+                if (changed.length === 0) {
+                    console.log(chalk.green(`✓ Nothing changed since the last deploy to ${database} at ${describeDeploy(lastDeploy)}.`));
+                    return;
+                }
+                console.log(chalk.blue(`Changed since the last deploy at ${describeDeploy(lastDeploy)}: ${changed.join(', ')}`));
+                runAreas = withDependentAreas(areas, changed, schemaFiles.files);
+                const dependents = runAreas.filter(area => !changed.includes(area));
+                if (dependents.length > 0) {
+                    console.log(chalk.blue(`Also re-running ${dependents.join(', ')}, which depend on them`));
+                }
+            } else if (options.changedOnly) {
+                console.log(chalk.yellow(`⚠️  ${database} has no deploy history; deploying every area.`));
+            }
+
+            // Areas like base.sql and data.sql fail or duplicate rows when they run a second time. Without deploy
+            // history, tables already in public mean the schema got there some other way, or the history was dropped.
+            const guarded = runAreas.filter(area => config.nonIdempotentSchemaFiles.includes(area));
+            const existingTables = client && !lastDeploy && guarded.length > 0 ? await fetchExistingTables(client) : [];
+            const unsafe = lastDeploy || existingTables.length > 0 ? guarded : [];
+            if (unsafe.length > 0 && !options.force) {
+                const shown = existingTables.slice(0, 5).join(', ') + (existingTables.length > 5 ? ` and ${existingTables.length - 5} more` : '');
+                console.error(chalk.red(lastDeploy
+                    ? `✗ ${database} was already deployed to at ${describeDeploy(lastDeploy)}, and ${unsafe.join(', ')} ${unsafe.length === 1 ? 'is' : 'are'} not safe to run again.`
+                    : `✗ ${database} has no deploy history, but public already has tables (${shown}), and ${unsafe.join(', ')} ${unsafe.length === 1 ? 'is' : 'are'} not safe to run again.`));
+                console.error(chalk.red(options.changedOnly
+                    ? '  Write a migration for that change, or pass --force to run them anyway.'
+                    : '  Use --changed-only to re-run only what changed, or pass --force to run them anyway.'));
+                process.exitCode = 1;
+                return;
+            }
+            if (unsafe.length > 0) {
+                console.log(chalk.yellow(`⚠️  Re-running ${unsafe.join(', ')} because of --force.`));
+            }
+
+            const runFiles = schemaFiles.files.filter(file => runAreas.includes(file.area));
+            const combined = combineSchemaFiles(runFiles);
+            const gitCommit = await currentGitCommit(config.schemaDir);
+
+            if (preview) {
+                const steps: PlanStep[] = [
+                    { label: `create the deploy history table ${deployTrackingTableName()}`, sql: deployTrackingTableSql() },
+                    ...runFiles.map(file => ({ label: `${config.schemaDir}/${file.path}`, sql: file.content })),
+                    { label: 'record the deploy', sql: recordDeploySql(runAreas, files, gitCommit) }
+                ];
+                printPlan(`deploy would run these files against ${database}@${host}:${port}, in order, in one transaction:`, steps);
+                if (schemaFiles.missing.length > 0) {
+                    console.log(chalk.yellow(`  Not found, skipped: ${schemaFiles.missing.map(area => `${area}.sql, ${area}/`).join(', ')}`));
+                }
+                if (options.emitSql) {
+                    writePlanScript(options.emitSql, 'deploy', connection, transactionScript(planScript(steps)));
+                }
+                if (!client && guarded.length > 0) {
+                    console.log(chalk.yellow(`  The deploy history was not read; a real run refuses ${guarded.join(', ')} on a database that was already deployed to or already has tables, unless --force is given.`));
+                }
+                console.log(chalk.yellow('Dry run: nothing was deployed.'));
+                return;
+            }
+
+            const combinedSqlPath = `${config.schemaDir}/${COMBINED_SQL_FILE}`;
+            fs.writeFileSync(combinedSqlPath, combined.sql);
+            fs.writeFileSync(`${config.schemaDir}/${COMBINED_MANIFEST_FILE}`, JSON.stringify(combined.manifest, null, 2) + '\n');
+            console.log(chalk.green(`Combined SQL written to ${combinedSqlPath} (${combined.manifest.files.length} files, listed in ${COMBINED_MANIFEST_FILE})`));
+
+            // One transaction, so the history never lists a deploy that failed halfway, nor misses one that ran.
+            // BEGIN shares the first line, so errors keep the line numbers of combined.sql and its manifest.
+            console.log(chalk.blue(`Deploying to database ${database} at ${host}:${port} as user ${user}...`));
+            await client!.execute(`BEGIN;${combined.sql}\n;\n${deployTrackingTableSql()}\n;\n${recordDeploySql(runAreas, files, gitCommit)}\n;\nCOMMIT;\n`);
+            console.log(chalk.green(`✓ Recorded the deploy in ${deployTrackingTableName()}${gitCommit ? ` (commit ${gitCommit.slice(0, 12)})` : ''}`));
+        } finally {
+            await client?.close();
+        }
+
+        console.log(chalk.green('Deployment completed successfully.'));
+    } catch (error) {
+        console.error(chalk.red('Error during deployment:'), error);
+    }
+}
+
+// === SCHEMA DIFF ===
+// `diff` loads the declarative schema files into a throwaway shadow database, reads both catalogs and
+// writes the statements that turn the target into the shadow as a new migration. The down section is
+// the same comparison the other way round. Covered: enums, sequences, tables and columns, constraints,
+// indexes, views, functions, triggers, row level security and policies. Not covered: domains, composite
+// types, extensions, grants and comments.
+
+interface ShadowDatabase {
+    connection: ConnectionSettings;
+    // Run a SQL script, stopping at the first error
+    execute: (script: string) => Promise<void>;
+    // Run pg_dump against the shadow database and return its output
+    dump: (args: string[]) => Promise<string>;
+    stop: () => Promise<void>;
+}
+
+const SHADOW_STARTUP_TIMEOUT_SECONDS = 60;
+
+// Start an empty Postgres container on a random local port. It is removed again by stop().
+const startShadowDatabase = async (image: string, log: Logger = console.log): Promise<ShadowDatabase> => {
+    const name = `supabase-tool-shadow-${crypto.randomBytes(4).toString('hex')}`;
+    const password = crypto.randomBytes(16).toString('hex');
+
+    log(chalk.blue(`Starting shadow database (${image})...`));
+    await $`docker run -d --rm --name ${name} -e POSTGRES_PASSWORD=${password} -p 127.0.0.1::5432 ${image}`.quiet();
+    const stop = async () => {
+        await $`docker rm -f ${name}`.quiet().nothrow();
+    };
+
+    try {
+        const mapping = (await $`docker port ${name} 5432/tcp`.quiet()).stdout.toString().trim().split('\n')[0]!;
+        const port = mapping.slice(mapping.lastIndexOf(':') + 1);
+
+        // While initialising, the image runs a server that only listens on its socket, so wait for TCP
+        const deadline = Date.now() + SHADOW_STARTUP_TIMEOUT_SECONDS * 1000;
+        while ((await $`docker exec ${name} pg_isready -q -h 127.0.0.1 -U postgres`.quiet().nothrow()).exitCode !== 0) {
+            if (Date.now() > deadline) {
+                throw new Error(`Shadow database did not accept connections within ${SHADOW_STARTUP_TIMEOUT_SECONDS} seconds`);
+            }
+            await Bun.sleep(500);
+        }
+
+        return {
+            connection: { host: '127.0.0.1', port, user: 'postgres', database: 'postgres', password },
+            // psql inside the container, so schema files may use meta-commands just like with deploy --executor psql
+            execute: async (script) => {
+                const result = await $`docker exec -i ${name} psql -X -q -v ON_ERROR_STOP=1 -U postgres -d postgres -f - < ${new Response(script)}`.quiet().nothrow();
+                if (result.exitCode !== 0) {
+                    // Skip the notices that come before the error
+                    const stderr = result.stderr.toString();
+                    throw new Error(stderr.slice(Math.max(stderr.search(/^psql:.*(ERROR|FATAL):/m), 0)).trim());
+                }
+            },
+            dump: async (args) => (await $`docker exec ${name} pg_dump -U postgres -d postgres ${args}`.quiet()).stdout.toString(),
+            stop
+        };
+    } catch (error) {
+        await stop();
+        throw error;
+    }
+};
+
+// Use an existing, empty database as the shadow instead of starting a container
+const connectShadowDatabase = (url: string): ShadowDatabase => {
+    const settings = { ...CONNECTION_DEFAULTS, ...Object.fromEntries(Object.entries(parseConnectionUrl(url)).filter(([, value]) => value !== undefined)) };
+    if (settings.password === undefined) {
+        throw new Error('--shadow-url must include a password');
+    }
+    const connection = settings as unknown as ConnectionSettings;
+    const client = createNativeClient(connection);
+    return {
+        connection,
+        execute: script => client.execute(script),
+        dump: async args => (await dockerPgDump(connection, args).quiet()).stdout.toString(),
+        stop: () => client.close()
+    };
+};
+
+interface CatalogColumn {
+    name: string;
+    type: string;
+    notNull: boolean;
+    default: string | null;
+    // pg_attribute.attidentity / attgenerated; empty when the column is neither
+    identity: string;
+    generated: string;
+}
+
+interface CatalogTable {
+    name: string;
+    rls: boolean;
+    columns: CatalogColumn[];
+}
+
+// Anything that is compared by its definition. Names are quoted and, where Postgres allows it, schema-qualified.
+interface CatalogObject {
+    name: string;
+    // Owning table for constraints, indexes, triggers and policies; "table.column" for owned sequences
+    table: string | null;
+    // Constraint type, view relkind or function return type, depending on the object
+    kind: string | null;
+    definition: string;
+}
+
+interface CatalogSnapshot {
+    enums: Map<string, string[]>;
+    sequences: Map<string, CatalogObject>;
+    tables: Map<string, CatalogTable>;
+    constraints: Map<string, CatalogObject>;
+    indexes: Map<string, CatalogObject>;
+    views: Map<string, CatalogObject>;
+    functions: Map<string, CatalogObject>;
+    triggers: Map<string, CatalogObject>;
+    policies: Map<string, CatalogObject>;
+}
+
+// Read everything diff compares from the given schemas, in creation order. Objects owned by extensions and
+// the tool's tracking tables are left out.
+const readCatalog = async (client: DatabaseClient, schemas: string[]): Promise<CatalogSnapshot> => {
+    const inSchemas = `IN (${schemas.map(quoteLiteral).join(', ')})`;
+    const notExtension = (catalog: string, oid: string) => `NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = '${catalog}'::regclass AND d.objid = ${oid} AND d.deptype = 'e')`;
+    const notTracking = [trackingTableName(), deployTrackingTableName(), seedTrackingTableName()]
+        .map(table => `c.oid IS DISTINCT FROM to_regclass(${quoteLiteral(table)})`)
+        .join(' AND ');
+    const ownTable = `c.relkind = 'r' AND NOT c.relispartition AND n.nspname ${inSchemas} AND ${notTracking} AND ${notExtension('pg_class', 'c.oid')}`;
+    const tableName = `quote_ident(n.nspname) || '.' || quote_ident(c.relname)`;
+    const byName = <T extends { name: string }>(rows: T[]) => new Map(rows.map(row => [row.name, row]));
+    const byTable = (rows: CatalogObject[]) => new Map(rows.map(row => [`${row.table}.${row.name}`, row]));
+
+    const enums = await client.query<{ name: string; labels: string }>(`
+        SELECT quote_ident(n.nspname) || '.' || quote_ident(t.typname) AS name,
+               (SELECT json_agg(e.enumlabel ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = t.oid)::text AS labels
+        FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace
+        WHERE t.typtype = 'e' AND n.nspname ${inSchemas} AND ${notExtension('pg_type', 't.oid')}
+        ORDER BY t.oid`);
+
+    // Identity sequences come with their column, so only standalone and serial sequences are listed
+    const sequences = await client.query<CatalogObject>(`
+        SELECT ${tableName} AS name,
+               (SELECT quote_ident(tn.nspname) || '.' || quote_ident(t.relname) || '.' || quote_ident(a.attname)
+                FROM pg_depend d JOIN pg_class t ON t.oid = d.refobjid JOIN pg_namespace tn ON tn.oid = t.relnamespace
+                JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = d.refobjsubid
+                WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.refclassid = 'pg_class'::regclass AND d.deptype = 'a') AS "table",
+               NULL AS kind,
+               format('AS %s INCREMENT BY %s MINVALUE %s MAXVALUE %s START WITH %s CACHE %s %s', format_type(s.seqtypid, NULL),
+                      s.seqincrement, s.seqmin, s.seqmax, s.seqstart, s.seqcache, CASE WHEN s.seqcycle THEN 'CYCLE' ELSE 'NO CYCLE' END) AS definition
+        FROM pg_sequence s JOIN pg_class c ON c.oid = s.seqrelid JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname ${inSchemas} AND ${notExtension('pg_class', 'c.oid')}
+          AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'i')
+        ORDER BY c.oid`);
+
+    const tables = await client.query<{ name: string; rls: boolean }>(`
+        SELECT ${tableName} AS name, c.relrowsecurity AS rls
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE ${ownTable}
+        ORDER BY c.oid`);
+
+    const columns = await client.query<CatalogColumn & { table: string }>(`
+        SELECT ${tableName} AS "table", quote_ident(a.attname) AS name, format_type(a.atttypid, a.atttypmod) AS type,
+               a.attnotnull AS "notNull", pg_get_expr(ad.adbin, ad.adrelid) AS "default",
+               a.attidentity::text AS identity, a.attgenerated::text AS generated
+        FROM pg_attribute a JOIN pg_class c ON c.oid = a.attrelid JOIN pg_namespace n ON n.oid = c.relnamespace
+        LEFT JOIN pg_attrdef ad ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+        WHERE a.attnum > 0 AND NOT a.attisdropped AND ${ownTable}
+        ORDER BY c.oid, a.attnum`);
+
+    const constraints = await client.query<CatalogObject>(`
+        SELECT quote_ident(co.conname) AS name, ${tableName} AS "table", co.contype::text AS kind, pg_get_constraintdef(co.oid) AS definition
+        FROM pg_constraint co JOIN pg_class c ON c.oid = co.conrelid JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE co.contype IN ('p', 'u', 'f', 'c', 'x') AND co.conislocal AND ${ownTable}
+        ORDER BY c.oid, co.oid`);
+
+    // Indexes behind primary key, unique and exclusion constraints come with the constraint
+    const indexes = await client.query<CatalogObject>(`
+        SELECT quote_ident(n.nspname) || '.' || quote_ident(i.relname) AS name, ${tableName} AS "table", NULL AS kind, pg_get_indexdef(i.oid) AS definition
+        FROM pg_index x JOIN pg_class i ON i.oid = x.indexrelid JOIN pg_class c ON c.oid = x.indrelid JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE ${ownTable}
+          AND NOT EXISTS (SELECT 1 FROM pg_constraint co WHERE co.conrelid = x.indrelid AND co.conindid = x.indexrelid AND co.contype IN ('p', 'u', 'x'))
+        ORDER BY i.oid`);
+
+    const views = await client.query<CatalogObject & { options: string | null }>(`
+        SELECT ${tableName} AS name, NULL AS "table", c.relkind::text AS kind, array_to_string(c.reloptions, ', ') AS options, pg_get_viewdef(c.oid) AS definition
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind IN ('v', 'm') AND n.nspname ${inSchemas} AND ${notExtension('pg_class', 'c.oid')}
+        ORDER BY c.oid`);
+
+    const functions = await client.query<CatalogObject>(`
+        SELECT quote_ident(n.nspname) || '.' || quote_ident(p.proname) || '(' || pg_get_function_identity_arguments(p.oid) || ')' AS name,
+               NULL AS "table", COALESCE(pg_get_function_result(p.oid), 'procedure') AS kind, pg_get_functiondef(p.oid) AS definition
+        FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+        WHERE p.prokind IN ('f', 'p') AND n.nspname ${inSchemas} AND ${notExtension('pg_proc', 'p.oid')}
+        ORDER BY p.oid`);
+
+    const triggers = await client.query<CatalogObject>(`
+        SELECT quote_ident(t.tgname) AS name, ${tableName} AS "table", NULL AS kind, pg_get_triggerdef(t.oid) AS definition
+        FROM pg_trigger t JOIN pg_class c ON c.oid = t.tgrelid JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE NOT t.tgisinternal AND n.nspname ${inSchemas} AND ${notTracking}
+        ORDER BY t.oid`);
+
+    const policies = await client.query<CatalogObject>(`
+        SELECT quote_ident(p.policyname) AS name, quote_ident(p.schemaname) || '.' || quote_ident(p.tablename) AS "table", NULL AS kind,
+               'CREATE POLICY ' || quote_ident(p.policyname) || ' ON ' || quote_ident(p.schemaname) || '.' || quote_ident(p.tablename)
+               || ' AS ' || p.permissive || ' FOR ' || p.cmd
+               || ' TO ' || (SELECT string_agg(CASE WHEN r = 'public' THEN 'public' ELSE quote_ident(r) END, ', ') FROM unnest(p.roles) r)
+               || COALESCE(' USING (' || p.qual || ')', '') || COALESCE(' WITH CHECK (' || p.with_check || ')', '') AS definition
+        FROM pg_policies p
+        WHERE p.schemaname ${inSchemas}
+        ORDER BY p.schemaname, p.tablename, p.policyname`);
+
+    return {
+        enums: new Map(enums.map(row => [row.name, JSON.parse(row.labels) as string[]])),
+        sequences: byName(sequences),
+        tables: new Map(tables.map(table => [table.name, {
+            name: table.name,
+            rls: table.rls,
+            columns: columns.filter(column => column.table === table.name).map(({ table, ...column }) => column)
+        }])),
+        constraints: byTable(constraints),
+        indexes: byName(indexes),
+        views: byName(views.map(({ options, ...view }) => ({
+            ...view,
+            definition: `${options ? `WITH (${options}) ` : ''}AS\n${view.definition.trim().replace(/;$/, '')}`
+        }))),
+        functions: byName(functions),
+        triggers: byTable(triggers),
+        policies: byTable(policies)
+    };
+};
+
+const columnDefinition = (column: CatalogColumn) => {
+    let sql = `${column.name} ${column.type}`;
+    if (column.generated) {
+        sql += ` GENERATED ALWAYS AS (${column.default}) ${column.generated === 'v' ? 'VIRTUAL' : 'STORED'}`;
+    } else if (column.identity) {
+        sql += ` GENERATED ${column.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT'} AS IDENTITY`;
+    } else if (column.default !== null) {
+        sql += ` DEFAULT ${column.default}`;
+    }
+    return column.notNull ? `${sql} NOT NULL` : sql;
+};
+
+interface DiffStatement {
+    sql: string;
+    // Drops that lose data (tables, columns, sequences and enum types); only written with --allow-drops
+    destructive: boolean;
+}
+
+interface CatalogDiff {
+    statements: DiffStatement[];
+    warnings: string[];
+    // ALTER TYPE ... ADD VALUE was used, so the migration has to run outside a transaction
+    addsEnumValues: boolean;
+}
+
+// Keys only in `to`, only in `from`, and in both but not equal
+const compareMaps = <T>(from: Map<string, T>, to: Map<string, T>, equal: (a: T, b: T) => boolean) => ({
+    added: [...to.keys()].filter(key => !from.has(key)),
+    removed: [...from.keys()].filter(key => !to.has(key)),
+    changed: [...to.keys()].filter(key => from.has(key) && !equal(from.get(key)!, to.get(key)!))
+});
+
+const sameDefinition = (a: CatalogObject, b: CatalogObject) => a.definition === b.definition && a.kind === b.kind;
+
+// The statements that turn the `from` catalog into the `to` catalog, ordered so that dependents are dropped
+// before what they depend on and created after it
+const diffCatalogs = (from: CatalogSnapshot, to: CatalogSnapshot): CatalogDiff => {
+    const statements: DiffStatement[] = [];
+    const warnings: string[] = [];
+    let addsEnumValues = false;
+    const add = (sql: string, destructive = false) => statements.push({ sql, destructive });
+
+    const enums = compareMaps(from.enums, to.enums, (a, b) => a.join('\n') === b.join('\n'));
+    const sequences = compareMaps(from.sequences, to.sequences, (a, b) => a.definition === b.definition && a.table === b.table);
+    const tables = compareMaps(from.tables, to.tables, () => true);
+    const constraints = compareMaps(from.constraints, to.constraints, sameDefinition);
+    const indexes = compareMaps(from.indexes, to.indexes, sameDefinition);
+    const views = compareMaps(from.views, to.views, sameDefinition);
+    const functions = compareMaps(from.functions, to.functions, sameDefinition);
+    const triggers = compareMaps(from.triggers, to.triggers, sameDefinition);
+    const policies = compareMaps(from.policies, to.policies, sameDefinition);
+
+    // Objects on a dropped table go with it
+    const onKeptTable = (object: CatalogObject) => !tables.removed.includes(object.table!);
+    const removedColumns: string[] = [];
+
+    // Dependents that are removed or will be recreated
+    for (const key of [...triggers.removed, ...triggers.changed]) {
+        const trigger = from.triggers.get(key)!;
+        if (onKeptTable(trigger)) add(`DROP TRIGGER ${trigger.name} ON ${trigger.table}`);
+    }
+    for (const key of [...policies.removed, ...policies.changed]) {
+        const policy = from.policies.get(key)!;
+        if (onKeptTable(policy)) add(`DROP POLICY ${policy.name} ON ${policy.table}`);
+    }
+    for (const key of [...views.removed, ...views.changed].reverse()) {
+        const view = from.views.get(key)!;
+        if (views.removed.includes(key) || view.kind === 'm' || to.views.get(key)!.kind !== view.kind) {
+            add(`DROP ${view.kind === 'm' ? 'MATERIALIZED VIEW' : 'VIEW'} ${view.name}`);
+        }
+    }
+    // Foreign keys first, so the keys they reference can go
+    const droppedConstraints = [...constraints.removed, ...constraints.changed].map(key => from.constraints.get(key)!).filter(onKeptTable);
+    for (const constraint of [...droppedConstraints.filter(c => c.kind === 'f'), ...droppedConstraints.filter(c => c.kind !== 'f')]) {
+        add(`ALTER TABLE ${constraint.table} DROP CONSTRAINT ${constraint.name}`);
+    }
+    for (const key of [...indexes.removed, ...indexes.changed]) {
+        const index = from.indexes.get(key)!;
+        if (onKeptTable(index)) add(`DROP INDEX ${index.name}`);
+    }
+    for (const key of functions.changed) {
+        // CREATE OR REPLACE cannot change the return type
+        if (from.functions.get(key)!.kind !== to.functions.get(key)!.kind) {
+            add(`DROP ${from.functions.get(key)!.kind === 'procedure' ? 'PROCEDURE' : 'FUNCTION'} ${key}`);
+        }
+    }
+
+    // Types and sequences
+    for (const key of enums.added) {
+        add(`CREATE TYPE ${key} AS ENUM (${to.enums.get(key)!.map(quoteLiteral).join(', ')})`);
+    }
+    for (const key of enums.changed) {
+        const current = from.enums.get(key)!;
+        const wanted = to.enums.get(key)!;
+        const dropped = current.filter(label => !wanted.includes(label));
+        if (dropped.length > 0) {
+            warnings.push(`enum ${key}: ${dropped.map(quoteLiteral).join(', ')} cannot be removed automatically; recreate the type by hand`);
+        }
+        const kept = current.filter(label => wanted.includes(label));
+        if (kept.join('\n') !== wanted.filter(label => current.includes(label)).join('\n')) {
+            warnings.push(`enum ${key}: existing values were reordered; Postgres cannot reorder enum values`);
+        }
+        wanted.forEach((label, index) => {
+            if (current.includes(label)) return;
+            // Earlier values are in place by now, so each new value goes after its predecessor
+            const next = wanted.find(candidate => current.includes(candidate));
+            const position = index > 0 ? ` AFTER ${quoteLiteral(wanted[index - 1]!)}` : next ? ` BEFORE ${quoteLiteral(next)}` : '';
+            add(`ALTER TYPE ${key} ADD VALUE ${quoteLiteral(label)}${position}`);
+            addsEnumValues = true;
+        });
+    }
+    for (const key of sequences.added) {
+        add(`CREATE SEQUENCE ${key} ${to.sequences.get(key)!.definition}`);
+    }
+    for (const key of sequences.changed) {
+        if (from.sequences.get(key)!.definition !== to.sequences.get(key)!.definition) {
+            add(`ALTER SEQUENCE ${key} ${to.sequences.get(key)!.definition}`);
+        }
+    }
+
+    // Tables and columns
+    for (const key of tables.added) {
+        const table = to.tables.get(key)!;
+        add(`CREATE TABLE ${key} (\n${table.columns.map(column => `    ${columnDefinition(column)}`).join(',\n')}\n)`);
+        if (table.rls) add(`ALTER TABLE ${key} ENABLE ROW LEVEL SECURITY`);
+    }
+    for (const key of [...to.tables.keys()].filter(key => from.tables.has(key))) {
+        const current = from.tables.get(key)!;
+        const wanted = to.tables.get(key)!;
+        for (const column of wanted.columns) {
+            const existing = current.columns.find(candidate => candidate.name === column.name);
+            if (!existing) {
+                add(`ALTER TABLE ${key} ADD COLUMN ${columnDefinition(column)}`);
+                continue;
+            }
+            if (existing.identity !== column.identity || existing.generated !== column.generated || (column.generated && existing.default !== column.default)) {
+                warnings.push(`${key}.${column.name}: identity or generated expression changed; alter it by hand`);
+                continue;
+            }
+            const typeChanged = existing.type !== column.type;
+            const defaultChanged = existing.default !== column.default;
+            if (typeChanged && existing.default !== null && !existing.identity) {
+                add(`ALTER TABLE ${key} ALTER COLUMN ${column.name} DROP DEFAULT`);
+            }
+            if (typeChanged) {
+                add(`ALTER TABLE ${key} ALTER COLUMN ${column.name} TYPE ${column.type} USING ${column.name}::${column.type}`);
+                warnings.push(`${key}.${column.name}: type changes from ${existing.type} to ${column.type}; check the USING cast`);
+            }
+            if (!column.identity && !column.generated && (typeChanged || defaultChanged)) {
+                if (column.default !== null) {
+                    add(`ALTER TABLE ${key} ALTER COLUMN ${column.name} SET DEFAULT ${column.default}`);
+                } else if (!typeChanged) {
+                    add(`ALTER TABLE ${key} ALTER COLUMN ${column.name} DROP DEFAULT`);
+                }
+            }
+            if (existing.notNull !== column.notNull) {
+                add(`ALTER TABLE ${key} ALTER COLUMN ${column.name} ${column.notNull ? 'SET' : 'DROP'} NOT NULL`);
+            }
+        }
+        for (const column of current.columns) {
+            if (!wanted.columns.some(candidate => candidate.name === column.name)) {
+                removedColumns.push(`${key}.${column.name}`);
+            }
+        }
+        if (current.rls !== wanted.rls) {
+            add(`ALTER TABLE ${key} ${wanted.rls ? 'ENABLE' : 'DISABLE'} ROW LEVEL SECURITY`);
+        }
+    }
+    for (const key of [...sequences.added, ...sequences.changed]) {
+        const sequence = to.sequences.get(key)!;
+        if (sequence.table !== (from.sequences.get(key)?.table ?? null)) {
+            add(`ALTER SEQUENCE ${key} OWNED BY ${sequence.table ?? 'NONE'}`);
+        }
+    }
+
+    // Functions, then everything that may call them
+    for (const key of [...functions.added, ...functions.changed]) {
+        add(to.functions.get(key)!.definition.trim());
+    }
+    for (const key of [...views.added, ...views.changed]) {
+        const view = to.views.get(key)!;
+        add(view.kind === 'm'
+            ? `CREATE MATERIALIZED VIEW ${key} ${view.definition}`
+            : `CREATE OR REPLACE VIEW ${key} ${view.definition}`);
+    }
+    const createdConstraints = [...constraints.added, ...constraints.changed].map(key => to.constraints.get(key)!);
+    for (const constraint of [...createdConstraints.filter(c => c.kind !== 'f'), ...createdConstraints.filter(c => c.kind === 'f')]) {
+        add(`ALTER TABLE ${constraint.table} ADD CONSTRAINT ${constraint.name} ${constraint.definition}`);
+    }
+    for (const key of [...indexes.added, ...indexes.changed]) {
+        add(to.indexes.get(key)!.definition);
+    }
+    for (const key of [...triggers.added, ...triggers.changed]) {
+        add(to.triggers.get(key)!.definition);
+    }
+    for (const key of [...policies.added, ...policies.changed]) {
+        add(to.policies.get(key)!.definition);
+    }
+
+    // Drops, newest objects first
+    for (const key of [...functions.removed].reverse()) {
+        add(`DROP ${from.functions.get(key)!.kind === 'procedure' ? 'PROCEDURE' : 'FUNCTION'} ${key}`);
+    }
+    for (const column of removedColumns) {
+        const separator = column.lastIndexOf('.');
+        add(`ALTER TABLE ${column.slice(0, separator)} DROP COLUMN ${column.slice(separator + 1)}`, true);
+    }
+    for (const key of [...tables.removed].reverse()) {
+        add(`DROP TABLE ${key}`, true);
+    }
+    for (const key of [...sequences.removed].reverse()) {
+        // Sequences owned by a dropped table or column are dropped with it
+        const owner = from.sequences.get(key)!.table;
+        if (owner && (removedColumns.includes(owner) || tables.removed.some(table => owner.startsWith(`${table}.`)))) continue;
+        add(`DROP SEQUENCE ${key}`, true);
+    }
+    for (const key of [...enums.removed].reverse()) {
+        add(`DROP TYPE ${key}`, true);
+    }
+
+    return { statements, warnings, addsEnumValues };
+};
+
+// A copy of `to` that also holds the tables, columns, sequences and enums only `from` has, so diffing
+// against it leaves them alone
+const keepDroppedObjects = (from: CatalogSnapshot, to: CatalogSnapshot): CatalogSnapshot => {
+    const kept: CatalogSnapshot = {
+        ...to,
+        enums: new Map(to.enums),
+        sequences: new Map(to.sequences),
+        tables: new Map(to.tables),
+        constraints: new Map(to.constraints),
+        indexes: new Map(to.indexes),
+        triggers: new Map(to.triggers),
+        policies: new Map(to.policies)
+    };
+    for (const [key, labels] of from.enums) {
+        if (!kept.enums.has(key)) kept.enums.set(key, labels);
+    }
+    for (const [key, sequence] of from.sequences) {
+        if (!kept.sequences.has(key)) kept.sequences.set(key, sequence);
+    }
+    for (const [key, table] of from.tables) {
+        const wanted = kept.tables.get(key);
+        if (!wanted) {
+            kept.tables.set(key, table);
+            // Keep what hangs off the table as well
+            for (const group of ['constraints', 'indexes', 'triggers', 'policies'] as const) {
+                for (const [objectKey, object] of from[group]) {
+                    if (object.table === key) kept[group].set(objectKey, object);
+                }
+            }
+        } else {
+            const extra = table.columns.filter(column => !wanted.columns.some(candidate => candidate.name === column.name));
+            if (extra.length > 0) kept.tables.set(key, { ...wanted, columns: [...wanted.columns, ...extra] });
+        }
+    }
+    return kept;
+};
+
+// Render statements for a migration section, wrapping function bodies so they don't need their tables yet
+const renderDiffSection = (statements: DiffStatement[]) => {
+    if (statements.length === 0) return '';
+    const sql = statements.map(statement => `${statement.sql};\n`);
+    if (statements.some(statement => /^CREATE OR REPLACE (FUNCTION|PROCEDURE)/.test(statement.sql))) {
+        return ['SET check_function_bodies = false;\n', ...sql, 'RESET check_function_bodies;\n'].join('\n');
+    }
+    return sql.join('\n');
+};
+
+const commentOut = (sql: string) => sql.split('\n').map(line => `-- ${line}`).join('\n');
+
+// Load the schema files into a shadow database and read its catalog. Returns null after reporting a failure.
+const loadDesiredCatalog = async (options: any, combinedSql: string, schemas: string[]): Promise<CatalogSnapshot | null> => {
+    const config = loadProjectConfig();
+    const shadow = options.shadowUrl ? connectShadowDatabase(options.shadowUrl) : await startShadowDatabase(options.shadowImage ?? config.dockerImage);
+    try {
+        const shadowClient = createNativeClient(shadow.connection);
+        try {
+            if (options.shadowUrl) {
+                const existing = await shadowClient.query<{ kind: string; name: string }>(schemaObjectsSql(schemas));
+                if (existing.length > 0) {
+                    console.error(chalk.red(`✗ The shadow database is not empty (${existing.length} object${existing.length === 1 ? '' : 's'} in ${schemas.join(', ')}); diff needs an empty one.`));
+                    return null;
+                }
+            }
+
+            console.log(chalk.blue(`Loading ${config.schemaDir} into the shadow database...`));
+            try {
+                await shadow.execute(combinedSql);
+            } catch (error) {
+                console.error(chalk.red('✗ The schema files failed to load into the shadow database:'), error instanceof Error ? error.message : error);
+                console.log(chalk.yellow('If they rely on Supabase roles or schemas (anon, authenticated, auth.users), use a Supabase image: --shadow-image supabase/postgres:<version>'));
+                return null;
+            }
+            console.log(chalk.green('✓ Schema loaded into the shadow database'));
+
+            return await readCatalog(shadowClient, schemas);
+        } finally {
+            await shadowClient.close();
+        }
+    } finally {
+        await shadow.stop();
+    }
+};
+
+const diffSchema = async (options: any) => {
+    try {
+        const config = loadProjectConfig();
+        const schemas: string[] = options.schema.length > 0 ? options.schema : ['public'];
+
+        const schemaFiles = loadSchemaFiles(config);
+        printSchemaFileProblems(config, schemaFiles);
+        if (schemaFiles.errors.length > 0) {
+            process.exitCode = 1;
+            return;
+        }
+        const combinedSql = combineSchemaFiles(schemaFiles.files).sql;
+        if (!hasExecutableSql(combinedSql)) {
+            console.error(chalk.red(`✗ No schema files found in ${config.schemaDir} (looked for ${config.schemaFiles.map(area => `${area}.sql, ${area}/`).join(', ')}).`));
+            process.exitCode = 1;
+            return;
+        }
+
+        const filename = newMigrationFileName(options.name);
+        if (!filename) {
+            console.error(chalk.red(`✗ "${options.name}" has no letters or digits to build a file name from.`));
+            process.exitCode = 1;
+            return;
+        }
+
+        const connection = resolveConnection(options, 'diff');
+        if (!connection) {
+            return;
+        }
+        const { host, port, database } = connection;
+
+        const client = createDatabaseClient(connection, options.executor);
+        let current: CatalogSnapshot;
+        try {
+            if (!(await validateDatabaseConnection(client))) {
+                process.exitCode = 1;
+                return;
+            }
+            current = await readCatalog(client, schemas);
+        } finally {
+            await client.close();
+        }
+
+        const desired = await loadDesiredCatalog(options, combinedSql, schemas);
+        if (!desired) {
+            process.exitCode = 1;
+            return;
+        }
+
+        // Without --allow-drops, objects only the target has are left in place and the drops are written as comments
+        const fullDiff = diffCatalogs(current, desired);
+        const skippedDrops = options.allowDrops ? [] : fullDiff.statements.filter(statement => statement.destructive);
+        const wanted = skippedDrops.length > 0 ? keepDroppedObjects(current, desired) : desired;
+        const up = skippedDrops.length > 0 ? diffCatalogs(current, wanted) : fullDiff;
+        const down = diffCatalogs(wanted, current);
+
+        if (up.statements.length === 0) {
+            console.log(chalk.green(`✓ ${database} already matches ${config.schemaDir} (${schemas.join(', ')}); no migration written.`));
+            skippedDrops.forEach(statement => console.log(chalk.yellow(`  Not dropped (use --allow-drops): ${statement.sql.split('\n')[0]}`)));
+            return;
+        }
+
+        console.log(chalk.blue(`\n${up.statements.length} change${up.statements.length === 1 ? '' : 's'} to bring ${database} in line with ${config.schemaDir}:`));
+        up.statements.forEach(statement => console.log(chalk.blue(`  ${statement.sql.split('\n')[0]}`)));
+        skippedDrops.forEach(statement => console.log(chalk.yellow(`  Not dropped (use --allow-drops): ${statement.sql.split('\n')[0]}`)));
+        const warnings = [...up.warnings, ...down.warnings.map(warning => `down section: ${warning}`)];
+        warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+
+        const header = [
+            `-- Migration: ${options.name}`,
+            `-- Created at: ${new Date().toISOString()}`,
+            `-- Generated by \`diff\` from ${config.schemaDir} against ${database}@${host}:${port} (schemas: ${schemas.join(', ')})`,
+            '-- Review before running migrate: a renamed table or column shows up as a drop plus an add.',
+            ...warnings.map(warning => `-- ⚠️  ${warning}`),
+            ...(up.addsEnumValues || down.addsEnumValues ? ['-- New enum values cannot be used in the transaction that adds them', '-- migrate:no-transaction'] : [])
+        ].join('\n');
+        const skipped = skippedDrops.length > 0
+            ? `\n-- Left out; re-run diff with --allow-drops to include them:\n${skippedDrops.map(statement => `${commentOut(statement.sql)};\n`).join('')}`
+            : '';
+        const content = `${header}\n\n-- migrate:up\n\n${renderDiffSection(up.statements)}${skipped}\n-- migrate:down\n\n${renderDiffSection(down.statements)}`;
+
+        if (options.dryRun) {
+            console.log(`\n${content}`);
+            console.log(chalk.yellow('Dry run: no migration file was written.'));
+            return;
+        }
+
+        fs.ensureDirSync(config.migrationsDir);
+        const migrationPath = `${config.migrationsDir}/${filename}`;
+        fs.writeFileSync(migrationPath, content);
+        console.log(chalk.green(`\n✓ Created migration file: ${migrationPath}`));
+        console.log(chalk.blue('Review it, then run the migrate command.'));
+    } catch (error) {
+        console.error(chalk.red('Error during schema diff:'), error);
+        process.exitCode = 1;
+    }
+};
+
+// === BACKUPS ===
+// dump-schema writes one folder per backup: the schema split into pre-data (tables, types, functions) and
+// post-data (indexes, constraints, triggers), the data in between, and a manifest.json describing it all.
+
+type BackupFormat = 'plain' | 'custom' | 'directory';
+const BACKUP_FORMATS: BackupFormat[] = ['plain', 'custom', 'directory'];
+const BACKUP_MANIFEST = 'manifest.json';
+// sha256sum-compatible list of every file in the folder, so `sha256sum -c SHA256SUMS` works too
+const BACKUP_CHECKSUMS = 'SHA256SUMS';
+
+type BackupCompression = 'none' | 'gzip' | 'zstd';
+const BACKUP_COMPRESSIONS: BackupCompression[] = ['none', 'gzip', 'zstd'];
+const COMPRESSION_SUFFIXES: Record<BackupCompression, string> = { none: '', gzip: '.gz', zstd: '.zst' };
+
+// Presets add schemas whose structure is owned by Supabase services; only their data is backed up
+const BACKUP_PRESETS: Record<string, { dataOnlySchemas: string[]; excludedTables: string[] }> = {
+    supabase: {
+        dataOnlySchemas: ['auth', 'storage'],
+        // Migration bookkeeping of the auth and storage services, which they manage themselves
+        excludedTables: ['auth.schema_migrations', 'storage.migrations']
+    }
+};
+
+interface BackupManifest {
+    toolVersion: string;
+    createdAt: string;
+    database: string;
+    format: BackupFormat;
+    // pg_dump --compress method; plain files carry a .gz/.zst suffix, archives compress internally
+    compression: BackupCompression;
+    preset: string | null;
+    // Schemas backed up with structure and data
+    schemas: string[];
+    // Schemas backed up as data only; the target must already have their tables
+    dataOnlySchemas: string[];
+    excludedTables: string[];
+    // Exact row count per table when the backup started
+    rowCounts: Record<string, number>;
+}
+
+interface BackupStep {
+    section: 'pre-data' | 'data' | 'post-data';
+    file: string;
+}
+
+// What restore runs, in order. Plain backups keep one SQL file per section; archives hold the whole
+// schema in one file that pg_restore reads section by section.
+const backupSteps = ({ format, compression }: Pick<BackupManifest, 'format' | 'compression'>): BackupStep[] => format === 'plain'
+    ? [
+        { section: 'pre-data', file: `schema-pre.sql${COMPRESSION_SUFFIXES[compression]}` },
+        { section: 'data', file: `data.sql${COMPRESSION_SUFFIXES[compression]}` },
+        { section: 'post-data', file: `schema-post.sql${COMPRESSION_SUFFIXES[compression]}` }
+    ]
+    : [
+        { section: 'pre-data', file: 'schema.dump' },
+        { section: 'data', file: format === 'directory' ? 'data' : 'data.dump' },
+        { section: 'post-data', file: 'schema.dump' }
+    ];
+
+interface BackupPlan {
+    format: BackupFormat;
+    compression: BackupCompression;
+    jobs: number | null;
+    preset: string | null;
+    schemas: string[];
+    dataOnlySchemas: string[];
+    excludedTables: string[];
+    columnInserts: boolean;
+}
+
+// Collect a repeatable option into an array
+const collectOption = (value: string, previous: string[]) => [...previous, value];
+
+const resolveBackupPlan = (options: any): BackupPlan | null => {
+    const errors: string[] = [];
+    const isIdentifier = (name: string) => /^[A-Za-z_][A-Za-z0-9_$]*$/.test(name);
+
+    const format = (options.format ?? 'plain') as BackupFormat;
+    if (!BACKUP_FORMATS.includes(format)) {
+        errors.push(`--format must be one of ${BACKUP_FORMATS.join(', ')}`);
+    }
+
+    // Archives are compressed by pg_dump unless told otherwise; plain SQL only when asked
+    const compression = (options.compress ?? (format === 'plain' ? 'none' : 'gzip')) as BackupCompression;
+    if (!BACKUP_COMPRESSIONS.includes(compression)) {
+        errors.push(`--compress must be one of ${BACKUP_COMPRESSIONS.join(', ')}`);
+    }
+
+    let jobs: number | null = null;
+    if (options.jobs !== undefined) {
+        jobs = Number(options.jobs);
+        if (!Number.isInteger(jobs) || jobs < 1) {
+            errors.push('--jobs must be a positive integer');
+        } else if (format !== 'directory') {
+            errors.push('--jobs needs --format directory (pg_dump only dumps in parallel to a directory)');
+        }
+    }
+
+    const preset = options.preset ?? null;
+    const presetConfig = preset ? BACKUP_PRESETS[preset] : undefined;
+    if (preset && !presetConfig) {
+        errors.push(`--preset must be one of ${Object.keys(BACKUP_PRESETS).join(', ')}`);
+    }
+
+    const schemas: string[] = options.schema?.length ? [...new Set<string>(options.schema)] : ['public'];
+    const dataOnlySchemas = (presetConfig?.dataOnlySchemas ?? []).filter(schema => !schemas.includes(schema));
+    for (const schema of schemas) {
+        if (!isIdentifier(schema)) errors.push(`--schema "${schema}" must be a plain schema name`);
+    }
+
+    if (options.columnInserts && format !== 'plain') {
+        errors.push('--column-inserts only applies to --format plain');
+    }
+
+    if (errors.length > 0) {
+        errors.forEach(error => console.error(chalk.red(`✗ ${error}`)));
+        return null;
+    }
+
+    return {
+        format,
+        compression,
+        jobs,
+        preset,
+        schemas,
+        dataOnlySchemas,
+        excludedTables: [...new Set([...(presetConfig?.excludedTables ?? []), ...(options.excludeTable ?? [])])],
+        columnInserts: Boolean(options.columnInserts)
+    };
+};
+
+// Match schema-qualified table names the way pg_dump reads --exclude-table patterns (* and ? wildcards,
+// unqualified patterns match the table in any schema)
+const tableMatchesPattern = (schema: string, table: string, pattern: string) => {
+    const toRegex = (part: string) => new RegExp(`^${part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+    const dot = pattern.indexOf('.');
+    return dot === -1
+        ? toRegex(pattern).test(table)
+        : toRegex(pattern.slice(0, dot)).test(schema) && toRegex(pattern.slice(dot + 1)).test(table);
+};
+
+// Exact row counts of every table in the given schemas, keyed by schema.table
+const countTableRows = async (client: DatabaseClient, schemas: string[], excludedTables: string[]) => {
+    const rows = await client.query<{ schema: string; name: string; rows: number | string }>(`
+        SELECT n.nspname AS schema, c.relname AS name,
+               (xpath('/row/c/text()', query_to_xml(format('SELECT count(*) AS c FROM %I.%I', n.nspname, c.relname), false, true, '')))[1]::text::bigint AS rows
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind = 'r' AND n.nspname IN (${schemas.map(quoteLiteral).join(', ')})
+        ORDER BY n.nspname, c.relname`);
+
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+        if (excludedTables.some(pattern => tableMatchesPattern(row.schema, row.name, pattern))) continue;
+        counts[`${row.schema}.${row.name}`] = Number(row.rows);
+    }
+    return counts;
+};
+
+// Run pg_dump against the connection in the configured Docker image
+const dockerPgDump = (connection: ConnectionSettings, args: string[], dockerArgs: string[] = []) =>
+    $`docker run --rm ${dockerArgs} -e PGPASSWORD=${connection.password} ${dockerSslArgs(connection)} ${loadProjectConfig().dockerImage} pg_dump -h ${connection.host} -p ${connection.port} -U ${connection.user} -d ${connection.database} ${args}`;
+
+const backup = async (options: any): Promise<string | undefined> => {
+    try {
+        console.log(chalk.blue('Starting backup...'));
+
+        const plan = resolveBackupPlan(options);
+        if (!plan) {
+            process.exitCode = 1;
+            return;
+        }
+
+        const connection = resolveConnection(options, 'backup');
+        if (!connection) {
+            return;
+        }
+        const { host, port, user, database } = connection;
+
+        console.log(chalk.blue(`Backing up database ${database} at ${host}:${port} as user ${user}...`));
+
+        // Count rows first, so the manifest describes what the dump should contain and nothing is
+        // written when the database cannot be reached
+        const client = createDatabaseClient(connection, options.executor);
+        let rowCounts: Record<string, number>;
+        try {
+            rowCounts = await countTableRows(client, [...plan.schemas, ...plan.dataOnlySchemas], plan.excludedTables);
+        } finally {
+            await client.close();
+        }
+
+        // Ensure the backups directory exists
+        const backupsDir = loadProjectConfig().backupsDir;
+        await fs.mkdir(backupsDir, { recursive: true });
+
+        // Create timestamped folder
+        const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
+        const backupDir = `${backupsDir}/backup_${timestamp}`;
+        await fs.mkdir(backupDir, { recursive: true });
+
+        // Get absolute paths for Docker volume mounting
+        const absoluteBackupDir = path.resolve(backupDir);
+
+        console.log(chalk.blue(`Schemas: ${plan.schemas.join(', ')}${plan.dataOnlySchemas.length > 0 ? ` (data only: ${plan.dataOnlySchemas.join(', ')})` : ''}`));
+        if (plan.excludedTables.length > 0) {
+            console.log(chalk.blue(`Excluding tables: ${plan.excludedTables.join(', ')}`));
+        }
+        console.log(chalk.blue(`Format: ${plan.format}, compression: ${plan.compression}${plan.jobs ? `, ${plan.jobs} parallel jobs` : ''}. Backup files will be stored in ${backupDir}`));
+
+        const [preData, data, postData] = backupSteps(plan);
+        const schemaArgs = plan.schemas.flatMap(schema => ['--schema', schema]);
+        const dataArgs = [...plan.schemas, ...plan.dataOnlySchemas].flatMap(schema => ['--schema', schema]);
+        const excludeArgs = plan.excludedTables.flatMap(table => ['--exclude-table', table]);
+        const compressArgs = [`--compress=${plan.compression}`];
+        // Write files as the current user, so they can be pruned without root
+        const userArgs = process.getuid && process.getgid ? ['--user', `${process.getuid()}:${process.getgid()}`] : [];
+        const pgDump = (args: string[]) => dockerPgDump(connection, args, [...userArgs, '-v', `${absoluteBackupDir}:/backup`]);
+
+        if (plan.format === 'plain') {
+            console.log(chalk.blue('Acquiring pre-data schema...'));
+            await pgDump([...schemaArgs, ...excludeArgs, ...compressArgs, '--section=pre-data', '-s', '-f', `/backup/${preData!.file}`]);
+
+            console.log(chalk.blue('Acquiring post-data-schema...'));
+            await pgDump([...schemaArgs, ...excludeArgs, ...compressArgs, '--section=post-data', '-s', '-f', `/backup/${postData!.file}`]);
+
+            console.log(chalk.blue('Acquiring data dump...'));
+            await pgDump([...dataArgs, ...excludeArgs, ...compressArgs, '--data-only', ...(plan.columnInserts ? ['--column-inserts'] : []), '-f', `/backup/${data!.file}`]);
+        } else {
+            console.log(chalk.blue('Acquiring schema...'));
+            await pgDump([...schemaArgs, ...excludeArgs, ...compressArgs, '-s', '-Fc', '-f', `/backup/${preData!.file}`]);
+
+            console.log(chalk.blue('Acquiring data dump...'));
+            const target = plan.format === 'directory'
+                ? ['-Fd', ...(plan.jobs ? ['-j', String(plan.jobs)] : [])]
+                : ['-Fc'];
+            await pgDump([...dataArgs, ...excludeArgs, ...compressArgs, '--data-only', ...target, '-f', `/backup/${data!.file}`]);
+        }
+
+        const manifest: BackupManifest = {
+            toolVersion: TOOL_VERSION,
+            createdAt: new Date().toISOString(),
+            database: `${database}@${host}:${port}`,
+            format: plan.format,
+            compression: plan.compression,
+            preset: plan.preset,
+            schemas: plan.schemas,
+            dataOnlySchemas: plan.dataOnlySchemas,
+            excludedTables: plan.excludedTables,
+            rowCounts
+        };
+        fs.writeFileSync(`${backupDir}/${BACKUP_MANIFEST}`, JSON.stringify(manifest, null, 2) + '\n');
+
+        // Checksums go last so they cover the manifest as well
+        await writeBackupChecksums(backupDir);
+
+        const totalRows = Object.values(rowCounts).reduce((total, count) => total + count, 0);
+        console.log(chalk.blue(`Manifest: ${Object.keys(rowCounts).length} tables, ${totalRows} rows`));
         console.log(chalk.green(`Backup completed successfully. Files are located in ${backupDir}`));
+        return backupDir;
+    } catch (error) {
+        console.error(chalk.red('Error during backup:'), error);
+    }
+}
+
+interface BackupInfo {
+    name: string;
+    path: string;
+    createdAt: Date | null;
+    manifest: BackupManifest;
+    missing: string[];
+    size: number;
+    // Left in the migrations folder by older versions, before backups had a folder of their own
+    legacy: boolean;
+}
+
+// Backups made before manifests existed are plain dumps of the public schema
+const legacyBackupManifest = (createdAt: Date | null): BackupManifest => ({
+    toolVersion: 'unknown',
+    createdAt: createdAt?.toISOString() ?? '',
+    database: 'unknown',
+    format: 'plain',
+    compression: 'none',
+    preset: null,
+    schemas: ['public'],
+    dataOnlySchemas: [],
+    excludedTables: [],
+    rowCounts: {}
+});
+
+// Size of a file, or of everything inside a directory
+const pathSize = (target: string): number => {
+    const stat = fs.statSync(target);
+    if (!stat.isDirectory()) return stat.size;
+    return fs.readdirSync(target).reduce((total, entry) => total + pathSize(`${target}/${entry}`), 0);
+};
+
+// Backup folders, newest first, including those older versions wrote to the migrations folder
+const listBackups = (): BackupInfo[] => {
+    const { backupsDir, migrationsDir } = loadProjectConfig();
+    const folders = (dir: string, legacy: boolean) => !fs.existsSync(dir) ? [] : fs.readdirSync(dir)
+        .filter(name => name.startsWith('backup_') && fs.statSync(`${dir}/${name}`).isDirectory())
+        .map(name => ({ dir, name, legacy }));
+
+    return [...folders(backupsDir, false), ...(migrationsDir === backupsDir ? [] : folders(migrationsDir, true))]
+        .map(({ dir, name, legacy }) => {
+            const backupPath = `${dir}/${name}`;
+            const stamp = name.match(/^backup_(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/);
+            const createdAt = stamp ? new Date(`${stamp[1]}-${stamp[2]}-${stamp[3]}T${stamp[4]}:${stamp[5]}:${stamp[6]}Z`) : null;
+            const manifestPath = `${backupPath}/${BACKUP_MANIFEST}`;
+            let manifest = legacyBackupManifest(createdAt);
+            let manifestError = false;
+            if (fs.existsSync(manifestPath)) {
+                try {
+                    const stored = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+                    // Manifests written before compression was recorded: archives used pg_dump's default (gzip)
+                    manifest = { ...stored, compression: stored.compression ?? (stored.format === 'plain' ? 'none' : 'gzip') };
+                } catch {
+                    manifestError = true;
+                }
+            }
+            const files = [...new Set(backupSteps(manifest).map(step => step.file))];
+            const present = files.filter(file => fs.existsSync(`${backupPath}/${file}`));
+            return {
+                name,
+                path: backupPath,
+                createdAt,
+                manifest,
+                missing: [...(manifestError ? [`${BACKUP_MANIFEST} (unreadable)`] : []), ...files.filter(file => !present.includes(file))],
+                size: present.reduce((total, file) => total + pathSize(`${backupPath}/${file}`), 0),
+                legacy
+            };
+        })
+        // Newest first; folders without a timestamp in their name go last
+        .sort((a, b) => (b.createdAt?.getTime() ?? -Infinity) - (a.createdAt?.getTime() ?? -Infinity) || b.name.localeCompare(a.name));
+};
+
+const formatBytes = (bytes: number) => {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const printBackups = (backups: BackupInfo[]) => {
+    console.log(chalk.blue(`Backups in ${loadProjectConfig().backupsDir}:`));
+    for (const info of backups) {
+        const created = info.createdAt ? info.createdAt.toISOString().replace('T', ' ').replace(/\..+/, ' UTC') : 'unknown date';
+        const complete = info.missing.length === 0;
+        const status = complete ? chalk.green('✓') : chalk.yellow('⚠️ ');
+        const schemas = [...info.manifest.schemas, ...info.manifest.dataOnlySchemas].join(',');
+        const compression = info.manifest.compression === 'none' ? '' : `+${info.manifest.compression}`;
+        const location = info.legacy ? chalk.yellow(`  (legacy location, ${info.path})`) : '';
+        console.log(`  ${status} ${info.name}  ${created}  ${formatBytes(info.size)}  ${info.manifest.format}${compression}  ${schemas}${complete ? '' : chalk.yellow(`  (missing ${info.missing.join(', ')})`)}${location}`);
+    }
+    const legacy = backups.filter(info => info.legacy);
+    if (legacy.length > 0) {
+        const { backupsDir, migrationsDir } = loadProjectConfig();
+        console.log(chalk.yellow(`⚠️  ${legacy.length} backup${legacy.length === 1 ? ' is' : 's are'} still in ${migrationsDir}. Move them with: mv ${migrationsDir}/backup_* ${backupsDir}/`));
+    }
+};
+
+// Contents of a backup file, decompressed on the fly
+const openBackupFile = (file: string, compression: BackupCompression): ReadableStream<Uint8Array> => {
+    const stream = Bun.file(file).stream();
+    // Bun decompresses zstd as well; the shared type definitions only list the standard formats
+    return compression === 'none' ? stream : stream.pipeThrough(new DecompressionStream(compression as 'gzip'));
+};
+
+// Every file under a directory, as sorted paths relative to it
+const listFilesRecursive = (dir: string, prefix = ''): string[] =>
+    fs.readdirSync(`${dir}/${prefix}`).sort().flatMap(entry => {
+        const relative = prefix ? `${prefix}/${entry}` : entry;
+        return fs.statSync(`${dir}/${relative}`).isDirectory() ? listFilesRecursive(dir, relative) : [relative];
+    });
+
+// SHA-256 of a file, streamed so large dumps are not read into memory
+const sha256File = async (file: string) => {
+    const hasher = new Bun.CryptoHasher('sha256');
+    for await (const chunk of Bun.file(file).stream()) {
+        hasher.update(chunk);
+    }
+    return hasher.digest('hex');
+};
+
+const writeBackupChecksums = async (backupDir: string) => {
+    const lines: string[] = [];
+    for (const file of listFilesRecursive(backupDir).filter(file => file !== BACKUP_CHECKSUMS)) {
+        lines.push(`${await sha256File(`${backupDir}/${file}`)}  ${file}`);
+    }
+    fs.writeFileSync(`${backupDir}/${BACKUP_CHECKSUMS}`, lines.join('\n') + '\n');
+};
+
+// pg_dump ends every plain dump with this line, so a file without it was cut short
+const PLAIN_DUMP_TRAILER = '-- PostgreSQL database dump complete';
+
+// Check one backup: hashes against SHA256SUMS, then a full read of every dump. Returns true if it is intact.
+const verifyBackup = async (info: BackupInfo, options: any): Promise<boolean> => {
+    console.log(chalk.blue(`\nVerifying ${info.name}...`));
+    let ok = true;
+    const fail = (message: string) => {
+        console.log(chalk.red(`  ✗ ${message}`));
+        ok = false;
+    };
+
+    info.missing.forEach(file => fail(`missing ${file}`));
+
+    const checksumsPath = `${info.path}/${BACKUP_CHECKSUMS}`;
+    if (!fs.existsSync(checksumsPath)) {
+        console.log(chalk.yellow(`  ⚠️  No ${BACKUP_CHECKSUMS}; made before checksums were recorded, so hashes cannot be checked`));
+    } else {
+        const expected = new Map<string, string>();
+        for (const line of fs.readFileSync(checksumsPath, 'utf-8').split('\n')) {
+            const match = line.match(/^([0-9a-f]{64}) [ *](.+)$/);
+            if (match) expected.set(match[2]!, match[1]!);
+        }
+
+        const actualFiles = listFilesRecursive(info.path).filter(file => file !== BACKUP_CHECKSUMS);
+        let checked = 0;
+        for (const [file, hash] of expected) {
+            if (!fs.existsSync(`${info.path}/${file}`)) {
+                fail(`${file} is listed in ${BACKUP_CHECKSUMS} but missing`);
+            } else if (await sha256File(`${info.path}/${file}`) !== hash) {
+                fail(`${file} does not match its checksum`);
+            } else {
+                checked++;
+            }
+        }
+        actualFiles.filter(file => !expected.has(file)).forEach(file => fail(`${file} is not listed in ${BACKUP_CHECKSUMS}`));
+        if (checked === expected.size) {
+            console.log(chalk.green(`  ✓ ${checked} file${checked === 1 ? '' : 's'} match ${BACKUP_CHECKSUMS}`));
+        }
+    }
+
+    if (options.hashesOnly || info.missing.length > 0) {
+        return ok;
+    }
+
+    // Read every dump to the end: decompression errors and truncated files show up here
+    const { format, compression } = info.manifest;
+    for (const file of [...new Set(backupSteps(info.manifest).map(step => step.file))]) {
+        try {
+            if (format === 'plain') {
+                let tail = '';
+                const decoder = new TextDecoder();
+                for await (const chunk of openBackupFile(`${info.path}/${file}`, compression)) {
+                    tail = (tail + decoder.decode(chunk, { stream: true })).slice(-256);
+                }
+                if (!tail.includes(PLAIN_DUMP_TRAILER)) {
+                    fail(`${file} is incomplete (no "${PLAIN_DUMP_TRAILER}" line)`);
+                    continue;
+                }
+            } else {
+                // pg_restore parses the archive and decompresses every entry without touching a database
+                await $`docker run --rm -v ${path.resolve(info.path)}:/backup:ro ${loadProjectConfig().dockerImage} pg_restore -f /dev/null /backup/${file}`.quiet();
+            }
+            console.log(chalk.green(`  ✓ ${file} reads cleanly`));
+        } catch (error) {
+            const detail = error instanceof $.ShellError ? error.stderr.toString().trim() : error instanceof Error ? error.message : String(error);
+            fail(`${file} cannot be read: ${detail}`);
+        }
+    }
+
+    return ok;
+};
+
+const verifyBackups = async (backupName: string | undefined, options: any) => {
+    try {
+        const backups = listBackups();
+        const selected = !backupName
+            ? backups
+            : backups.filter(info => (backupName === 'latest' ? info === backups[0] : info.name === backupName || info.path === backupName));
+        if (selected.length === 0) {
+            console.error(chalk.red(backupName ? `✗ Backup "${backupName}" not found.` : `✗ No backups found in ${loadProjectConfig().backupsDir}.`));
+            process.exitCode = 1;
+            return;
+        }
+
+        const failed: string[] = [];
+        for (const info of selected) {
+            if (!(await verifyBackup(info, options))) failed.push(info.name);
+        }
+
+        if (failed.length > 0) {
+            console.error(chalk.red(`\n✗ ${failed.length} of ${selected.length} backup${selected.length === 1 ? '' : 's'} failed verification: ${failed.join(', ')}`));
+            process.exitCode = 1;
+        } else {
+            console.log(chalk.green(`\n✓ ${selected.length} backup${selected.length === 1 ? '' : 's'} verified`));
+        }
+    } catch (error) {
+        console.error(chalk.red('Error verifying backups:'), error);
+        process.exitCode = 1;
+    }
+};
+
+// ISO 8601 week (e.g. 2025-W01) of a UTC date
+const isoWeek = (date: Date) => {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+    const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+// Names of the backups the retention rules keep, with the reason for each. Backups are newest first;
+// daily and weekly rules keep the newest backup of each of the last N days or weeks that have one.
+const selectBackupsToKeep = (backups: BackupInfo[], rules: { last: number; daily: number; weekly: number }) => {
+    const keep = new Map<string, string[]>();
+    const reason = (info: BackupInfo, text: string) => keep.set(info.name, [...(keep.get(info.name) ?? []), text]);
+
+    backups.slice(0, rules.last).forEach(info => reason(info, 'last'));
+
+    for (const [rule, count, period] of [['daily', rules.daily, (date: Date) => date.toISOString().slice(0, 10)], ['weekly', rules.weekly, isoWeek]] as const) {
+        const seen = new Set<string>();
+        for (const info of backups) {
+            if (!info.createdAt) continue;
+            const key = period(info.createdAt);
+            if (seen.has(key)) continue;
+            if (seen.size >= count) break;
+            seen.add(key);
+            reason(info, `${rule} ${key}`);
+        }
+    }
+
+    // Never delete something whose age is unknown, or a folder outside backupsDir
+    backups.filter(info => !info.createdAt).forEach(info => reason(info, 'unknown date'));
+    backups.filter(info => info.legacy).forEach(info => reason(info, 'legacy location'));
+    return keep;
+};
+
+const pruneBackups = async (options: any) => {
+    try {
+        const rules = { last: 0, daily: 0, weekly: 0 };
+        for (const [key, option] of [['last', 'keepLast'], ['daily', 'keepDaily'], ['weekly', 'keepWeekly']] as const) {
+            if (options[option] === undefined) continue;
+            const value = Number(options[option]);
+            if (!Number.isInteger(value) || value < 0) {
+                console.error(chalk.red(`✗ --keep-${key} must be a whole number`));
+                process.exitCode = 1;
+                return;
+            }
+            rules[key] = value;
+        }
+        if (rules.last + rules.daily + rules.weekly === 0) {
+            console.error(chalk.red('✗ Give at least one of --keep-last, --keep-daily or --keep-weekly; prune never deletes every backup.'));
+            process.exitCode = 1;
+            return;
+        }
+
+        const backups = listBackups();
+        const keep = selectBackupsToKeep(backups, rules);
+        const remove = backups.filter(info => !keep.has(info.name));
+
+        console.log(chalk.blue(`Backups in ${loadProjectConfig().backupsDir}:`));
+        for (const info of backups) {
+            const reasons = keep.get(info.name);
+            console.log(reasons
+                ? chalk.green(`  keep    ${info.name}  (${reasons.join(', ')})`)
+                : chalk.yellow(`  remove  ${info.name}  ${formatBytes(info.size)}`));
+        }
+
+        if (remove.length === 0) {
+            console.log(chalk.green('\n✓ Nothing to prune'));
+            return;
+        }
+
+        const freed = formatBytes(remove.reduce((total, info) => total + pathSize(info.path), 0));
+        if (options.dryRun) {
+            console.log(chalk.yellow(`\nDry run: would remove ${remove.length} backup${remove.length === 1 ? '' : 's'} (${freed}).`));
+            return;
+        }
+
+        for (const info of remove) {
+            await fs.rm(info.path, { recursive: true, force: true });
+        }
+        console.log(chalk.green(`\n✓ Removed ${remove.length} backup${remove.length === 1 ? '' : 's'} (${freed})`));
+    } catch (error) {
+        console.error(chalk.red('Error pruning backups:'), error);
+        process.exitCode = 1;
+    }
+};
+
+// === MIGRATIONS DIRECTORY ===
+// The one layout every migration command reads:
+//   <version>_<name>.sql        versioned migration, applied once in version order (create-migration writes these)
+//   <version>_<name>.down.sql   optional rollback for the migration of the same name
+//   schema-pre.sql              optional baseline schema, applied before the first migration of a fresh database
+//   schema-post.sql             optional, applied after every migrate (indexes, constraints, triggers)
+//   R__<name>.sql, repeatable/  repeatable migrations, re-applied after the versioned ones whenever they change
+// Anything else is reported and never run, including data.sql, which seed sets replace. Files listed in
+// ignoredMigrationFiles are skipped quietly.
+
+const MIGRATION_FILE_PATTERN = /^\d+(T\d+)?_[A-Za-z0-9_-]+\.sql$/;
+const DOWN_FILE_PATTERN = /^\d+(T\d+)?_[A-Za-z0-9_-]+\.down\.sql$/;
+const REPEATABLE_FILE_PATTERN = /^R__[A-Za-z0-9_.-]+\.sql$/;
+const REPEATABLE_DIR = 'repeatable';
+
+// Names people reach for that mean one of the baseline files
+const MISNAMED_MIGRATION_FILES: Record<string, string> = {
+    'pre-data.sql': 'schema-pre.sql',
+    'post-data.sql': 'schema-post.sql',
+    'schema_pre.sql': 'schema-pre.sql',
+    'schema_post.sql': 'schema-post.sql'
+};
+
+interface MigrationLayout {
+    dir: string;
+    exists: boolean;
+    // Versioned migration files in the order they apply
+    migrations: string[];
+    // Repeatable migrations (R__*.sql and repeatable/*.sql) relative to dir, sorted by path, which is the order they apply
+    repeatable: string[];
+    schemaPre: string | null;
+    schemaPost: string | null;
+    warnings: string[];
+}
+
+// Read the migrations directory. Never throws for odd contents; they end up in `warnings`.
+const loadMigrationLayout = (): MigrationLayout => {
+    const { migrationsDir: dir, backupsDir, seedsDir, ignoredMigrationFiles } = loadProjectConfig();
+    const layout: MigrationLayout = { dir, exists: fs.existsSync(dir), migrations: [], repeatable: [], schemaPre: null, schemaPost: null, warnings: [] };
+    if (!layout.exists) return layout;
+
+    const entries = fs.readdirSync(dir).sort();
+    for (const entry of entries) {
+        if (entry.startsWith('.') || ignoredMigrationFiles.includes(entry)) continue;
+
+        if (entry === REPEATABLE_DIR && fs.statSync(`${dir}/${entry}`).isDirectory()) {
+            for (const file of fs.readdirSync(`${dir}/${entry}`).sort()) {
+                if (file.startsWith('.') || ignoredMigrationFiles.includes(`${entry}/${file}`)) continue;
+                if (/\.sql$/i.test(file) && fs.statSync(`${dir}/${entry}/${file}`).isFile()) {
+                    layout.repeatable.push(`${entry}/${file}`);
+                } else {
+                    layout.warnings.push(`${entry}/${file} is not a .sql file and is ignored`);
+                }
+            }
+        } else if (fs.statSync(`${dir}/${entry}`).isDirectory()) {
+            layout.warnings.push(entry.startsWith('backup_')
+                ? `${entry}/ is a backup folder; backups now live in ${backupsDir}. backups and restore still find it here, but move it with: mv ${dir}/${entry} ${backupsDir}/`
+                : `${entry}/ is not part of the migrations layout and is ignored`);
+        } else if (entry === 'schema-pre.sql') {
+            layout.schemaPre = `${dir}/${entry}`;
+        } else if (entry === 'schema-post.sql') {
+            layout.schemaPost = `${dir}/${entry}`;
+        } else if (entry === 'data.sql') {
+            layout.warnings.push(`${entry} is not run, as running it on every migrate added its rows again each time; move it to ${seedsDir}/<set>/ and load it once with seed`);
+        } else if (MISNAMED_MIGRATION_FILES[entry]) {
+            layout.warnings.push(`${entry} is not run; rename it to ${MISNAMED_MIGRATION_FILES[entry]}`);
+        } else if (DOWN_FILE_PATTERN.test(entry)) {
+            if (!entries.includes(entry.replace(/\.down\.sql$/, '.sql'))) {
+                layout.warnings.push(`${entry} has no matching ${entry.replace(/\.down\.sql$/, '.sql')} and is ignored`);
+            }
+        } else if (MIGRATION_FILE_PATTERN.test(entry)) {
+            layout.migrations.push(entry);
+        } else if (REPEATABLE_FILE_PATTERN.test(entry)) {
+            layout.repeatable.push(entry);
+        } else if (/\.sql$/i.test(entry)) {
+            layout.warnings.push(`${entry} is not run; migrations must be named <version>_<name>.sql (use create-migration)`);
+        } else {
+            layout.warnings.push(`${entry} is not part of the migrations layout and is ignored`);
+        }
+    }
+
+    layout.repeatable.sort();
+    return layout;
+};
+
+const printLayoutWarnings = (layout: MigrationLayout) => {
+    layout.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${layout.dir}: ${warning}`)));
+};
+
+// SQL to create the migrations tracking table, upgrading tables created before checksums were recorded
+const migrationsTableSql = (table = trackingTableName()) => `
+    CREATE SCHEMA IF NOT EXISTS ${quoteIdent(loadProjectConfig().trackingTable.schema)};
+    CREATE TABLE IF NOT EXISTS ${table} (
+        version VARCHAR(255) PRIMARY KEY,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        checksum VARCHAR(64),
+        file_size BIGINT,
+        tool_version VARCHAR(32),
+        repeatable BOOLEAN NOT NULL DEFAULT false
+    );
+    ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS checksum VARCHAR(64);
+    ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS file_size BIGINT;
+    ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS tool_version VARCHAR(32);
+    ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS repeatable BOOLEAN NOT NULL DEFAULT false;
+`;
+
+interface AppliedMigration {
+    version: string;
+    appliedAt: string | null;
+    checksum: string | null;
+    fileSize: number | null;
+    toolVersion: string | null;
+}
+
+interface MigrationDrift {
+    kind: 'changed' | 'missing' | 'unknown';
+    version: string;
+    detail: string;
+}
+
+// Hash a migration file; line endings are normalised so a CRLF checkout doesn't count as an edit
+const computeMigrationChecksum = (filePath: string) => {
+    const content = fs.readFileSync(filePath, 'utf-8').replace(/\r\n/g, '\n');
+    return {
+        checksum: crypto.createHash('sha256').update(content).digest('hex'),
+        size: fs.statSync(filePath).size
+    };
+};
+
+// A tracking table row as to_jsonb returns it; columns added by later versions are missing from older tables
+interface TrackingRow {
+    version: string;
+    applied_at?: string | null;
+    checksum?: string | null;
+    file_size?: number | null;
+    tool_version?: string | null;
+    repeatable?: boolean | null;
+}
+
+// Read the tracking table rows as JSON, so tables without the newer columns still load. Repeatable migrations
+// share the table (keyed by their path) and come back separately from the versioned ones.
+const fetchTrackingRows = async (client: DatabaseClient) => {
+    const rows = await client.query<{ migration: TrackingRow | string }>(`SELECT to_jsonb(m) AS migration FROM ${trackingTableName()} m ORDER BY version`);
+
+    const versioned = new Map<string, AppliedMigration>();
+    const repeatable = new Map<string, AppliedMigration>();
+    for (const { migration } of rows) {
+        const row: TrackingRow = typeof migration === 'string' ? JSON.parse(migration) : migration;
+        (row.repeatable ? repeatable : versioned).set(row.version, {
+            version: row.version,
+            appliedAt: row.applied_at ?? null,
+            checksum: row.checksum ?? null,
+            fileSize: row.file_size ?? null,
+            toolVersion: row.tool_version ?? null
+        });
+    }
+    return { versioned, repeatable };
+};
+
+const fetchAppliedMigrations = async (client: DatabaseClient): Promise<Map<string, AppliedMigration>> =>
+    (await fetchTrackingRows(client)).versioned;
+
+// Compare the migration files on disk against what the database says was applied
+const detectMigrationDrift = (migrationDir: string, migrationFiles: string[], applied: Map<string, AppliedMigration>): MigrationDrift[] => {
+    const drift: MigrationDrift[] = [];
+    const versionsOnDisk = new Set(migrationFiles.map(file => file.replace('.sql', '')));
+    const latestApplied = [...applied.keys()].sort().pop();
+    // Versions up to the newest baseline were squashed; their files are archived, not missing
+    const baselines = migrationFiles.map(file => baselineOf(migrationDir, file));
+    const squashedThrough = baselines.filter(version => version !== null).sort().pop();
+
+    for (const [index, file] of migrationFiles.entries()) {
+        const version = file.replace('.sql', '');
+        const record = applied.get(version);
+
+        if (record) {
+            // Rows written before checksums were tracked can't be verified
+            if (!record.checksum) continue;
+
+            const { checksum } = computeMigrationChecksum(`${migrationDir}/${file}`);
+            if (checksum !== record.checksum) {
+                drift.push({
+                    kind: 'changed',
+                    version,
+                    detail: `file was modified after it was applied (recorded ${record.checksum.slice(0, 12)}, now ${checksum.slice(0, 12)})`
+                });
+            }
+        } else if (latestApplied && version < latestApplied && !baselines[index]) {
+            drift.push({
+                kind: 'unknown',
+                version,
+                detail: `not applied, but older than the latest applied migration ${latestApplied}`
+            });
+        }
+    }
+
+    for (const record of applied.values()) {
+        if (!versionsOnDisk.has(record.version) && !(squashedThrough && record.version <= squashedThrough)) {
+            drift.push({
+                kind: 'missing',
+                version: record.version,
+                detail: `applied${record.appliedAt ? ` at ${record.appliedAt}` : ''} but no longer present in ${migrationDir}`
+            });
+        }
+    }
+
+    return drift;
+};
+
+const printMigrationDrift = (drift: MigrationDrift[]) => {
+    const labels = { changed: '✗ Changed', missing: '✗ Missing', unknown: '✗ Unknown' };
+    console.log(chalk.red(`\nMigration drift detected (${drift.length} issue${drift.length === 1 ? '' : 's'}):`));
+    for (const item of drift) {
+        console.log(chalk.red(`  ${labels[item.kind]}  ${item.version}: ${item.detail}`));
+    }
+};
+
+interface MigrationSections {
+    up: string;
+    down: string | null;
+    downSource: string | null;
+    transactional: boolean;
+}
+
+const MIGRATE_UP_MARKER = /^--\s*migrate:up\s*$/m;
+const MIGRATE_DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+const MIGRATE_NO_TRANSACTION = /^--\s*migrate:no-transaction\s*$/m;
+// Written by squash: the baseline replaces every migration up to and including this version
+const MIGRATE_BASELINE = /^--\s*migrate:baseline\s+(\S+)\s*$/m;
+
+// The last version a baseline migration replaces, or null for an ordinary migration
+const baselineOf = (migrationDir: string, migrationFile: string) =>
+    MIGRATE_BASELINE.exec(fs.readFileSync(`${migrationDir}/${migrationFile}`, 'utf-8'))?.[1] ?? null;
+
+// Split a migration into its up and down SQL. A file can carry both as `-- migrate:up` / `-- migrate:down`
+// sections, or keep the down step in a sibling `<version>.down.sql` file. Files without markers are all "up".
+const loadMigrationSections = (migrationDir: string, migrationFile: string): MigrationSections => {
+    const content = fs.readFileSync(`${migrationDir}/${migrationFile}`, 'utf-8');
+    const upMatch = MIGRATE_UP_MARKER.exec(content);
+    const downMatch = MIGRATE_DOWN_MARKER.exec(content);
+    // Statements like CREATE INDEX CONCURRENTLY can't run inside a transaction block
+    const transactional = !MIGRATE_NO_TRANSACTION.test(content);
+
+    // A section runs from its marker to the other marker (if that comes later) or to the end of the file
+    const sectionBody = (match: RegExpExecArray | null, other: RegExpExecArray | null) => {
+        if (!match) return null;
+        const end = other && other.index > match.index ? other.index : content.length;
+        return content.slice(match.index + match[0].length, end);
+    };
+
+    const up = sectionBody(upMatch, downMatch) ?? (downMatch ? content.slice(0, downMatch.index) : content);
+    const down = sectionBody(downMatch, upMatch);
+
+    if (down !== null) {
+        return { up, down, downSource: migrationFile, transactional };
+    }
+    return { up, transactional, ...loadSiblingDownFile(migrationDir, migrationFile) };
+};
+
+const loadSiblingDownFile = (migrationDir: string, migrationFile: string) => {
+    const downFile = migrationFile.replace(/\.sql$/, '.down.sql');
+    if (fs.existsSync(`${migrationDir}/${downFile}`)) {
+        return { down: fs.readFileSync(`${migrationDir}/${downFile}`, 'utf-8'), downSource: downFile };
+    }
+    return { down: null, downSource: null };
+};
+
+// True when the SQL has something besides whitespace and comments
+const hasExecutableSql = (sql: string | null) => {
+    if (!sql) return false;
+    return sql.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--.*$/gm, '').trim().length > 0;
+};
+
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const recordMigrationSql = (version: string, checksum: string, size: number) =>
+    `INSERT INTO ${trackingTableName()} (version, checksum, file_size, tool_version) VALUES (${quoteLiteral(version)}, ${quoteLiteral(checksum)}, ${size}, ${quoteLiteral(TOOL_VERSION)});`;
+
+// A repeatable migration keeps one row, updated with the hash of the file each time it runs
+const recordRepeatableSql = (file: string, checksum: string, size: number) =>
+    `INSERT INTO ${trackingTableName()} (version, checksum, file_size, tool_version, repeatable) VALUES (${quoteLiteral(file)}, ${quoteLiteral(checksum)}, ${size}, ${quoteLiteral(TOOL_VERSION)}, true)
+    ON CONFLICT (version) DO UPDATE SET applied_at = CURRENT_TIMESTAMP, checksum = EXCLUDED.checksum, file_size = EXCLUDED.file_size, tool_version = EXCLUDED.tool_version;`;
+
+// The extra `;` terminates a final statement that was written without one
+const transactionScript = (...statements: string[]) => `BEGIN;\n${statements.map(sql => `${sql}\n;\n`).join('')}COMMIT;\n`;
+
+// Advisory lock key shared by every instance of the tool; small enough that pg_locks reports it as classid 0 / objid key
+const MIGRATION_LOCK_KEY = 727079361;
+
+interface MigrationLock {
+    release: () => Promise<void>;
+}
+
+// Print the sessions currently holding the migration lock
+const printMigrationLockHolders = async (client: DatabaseClient) => {
+    const holdersSql = `
+        SELECT a.pid, a.usename, a.application_name, a.client_addr::text AS client_addr, a.backend_start::text AS backend_start, a.state
+        FROM pg_locks l JOIN pg_stat_activity a ON a.pid = l.pid
+        WHERE l.locktype = 'advisory' AND l.granted AND l.classid = 0 AND l.objid = ${MIGRATION_LOCK_KEY} AND l.objsubid = 1
+    `;
+    try {
+        const holders = await client.query(holdersSql);
+        if (holders.length === 0) return false;
+
+        console.log(chalk.yellow('The migration lock is held by:'));
+        for (const holder of holders) {
+            console.log(chalk.yellow(`  • pid ${holder.pid}, user ${holder.usename}, application "${holder.application_name || 'unknown'}", client ${holder.client_addr ?? 'local socket'}, connected since ${holder.backend_start} (${holder.state})`));
+        }
+        return true;
     } catch (error) {
-        console.error(chalk.red('Error during backup:'), error);
+        console.log(chalk.yellow('Could not look up the migration lock holder.'));
+        return false;
+    }
+};
+
+// Take the session-wide advisory lock that serialises migrate, rollback and clean. The lock lives in a
+// dedicated session that stays open until release() is called (or this process exits).
+const acquireMigrationLock = async (client: DatabaseClient, timeoutSeconds: number): Promise<MigrationLock | null> => {
+    console.log(chalk.blue(`Acquiring migration lock (waiting up to ${timeoutSeconds}s)...`));
+
+    if (await printMigrationLockHolders(client)) {
+        console.log(chalk.yellow('Waiting for the lock to be released...'));
+    }
+
+    const reportFailure = async (message: string) => {
+        if (message.includes('lock timeout')) {
+            console.error(chalk.red(`✗ Timed out after ${timeoutSeconds}s waiting for the migration lock.`));
+            await printMigrationLockHolders(client);
+            console.log(chalk.yellow('Another migrate, rollback, clean or restore is running against this database. Try again once it finishes, or raise --lock-timeout.'));
+        } else {
+            console.error(chalk.red('✗ Could not acquire the migration lock:'), message);
+        }
+    };
+
+    if (client.executor === 'native') {
+        const session = createNativeClient(client.connection);
+        try {
+            await session.execute(`SET lock_timeout = '${timeoutSeconds * 1000}ms';`);
+            await session.query(`SELECT pg_advisory_lock(${MIGRATION_LOCK_KEY})`);
+        } catch (error) {
+            await session.close();
+            await reportFailure(error instanceof Error ? error.message : String(error));
+            return null;
+        }
+
+        console.log(chalk.green('✓ Migration lock acquired'));
+        return {
+            release: async () => {
+                await session.query(`SELECT pg_advisory_unlock(${MIGRATION_LOCK_KEY})`).catch(() => {});
+                await session.close();
+            }
+        };
+    }
+
+    const { host, port, user, database, password } = client.connection;
+    const session = Bun.spawn([
+        'docker', 'run', '--rm', '-i', '-e', `PGPASSWORD=${password}`, '-e', `PGAPPNAME=${APPLICATION_NAME}`, ...dockerSslArgs(client.connection), loadProjectConfig().dockerImage,
+        'psql', '-X', '-q', '-t', '-A', '-v', 'ON_ERROR_STOP=1', '-h', host, '-p', port, '-U', user, '-d', database
+    ], { stdin: 'pipe', stdout: 'pipe', stderr: 'pipe' });
+
+    session.stdin.write(`SET lock_timeout = '${timeoutSeconds * 1000}ms';\nSELECT pg_advisory_lock(${MIGRATION_LOCK_KEY});\nSELECT 'lock acquired';\n`);
+    session.stdin.flush();
+
+    // Wait for the confirmation line; psql exits instead if the lock wait times out
+    let output = '';
+    const reader = session.stdout.getReader();
+    const decoder = new TextDecoder();
+    while (!output.includes('lock acquired')) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        output += decoder.decode(value, { stream: true });
+    }
+    reader.releaseLock();
+
+    if (!output.includes('lock acquired')) {
+        const stderr = await new Response(session.stderr).text();
+        await session.exited;
+        await reportFailure(stderr.trim());
+        return null;
+    }
+
+    console.log(chalk.green('✓ Migration lock acquired'));
+    return {
+        release: async () => {
+            session.stdin.write(`SELECT pg_advisory_unlock(${MIGRATION_LOCK_KEY});\n`);
+            session.stdin.end();
+            await session.exited;
+        }
+    };
+};
+
+const parseLockTimeout = (value: string | undefined) => {
+    const seconds = Number(value ?? '60');
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+// === LINT ===
+
+type LintSeverity = 'error' | 'warning';
+
+const LINT_LEVELS = ['error', 'warning', 'off'] as const;
+type LintLevel = typeof LINT_LEVELS[number];
+
+interface LintRule {
+    id: string;
+    severity: LintSeverity;
+    description: string;
+}
+
+const LINT_RULES: LintRule[] = [
+    { id: 'not-null-without-default', severity: 'error', description: 'Adding a NOT NULL column without a default to an existing table fails if the table has rows' },
+    { id: 'concurrently-in-transaction', severity: 'error', description: 'CONCURRENTLY cannot run inside a transaction; mark the file "-- migrate:no-transaction"' },
+    { id: 'drop-table', severity: 'warning', description: 'DROP TABLE deletes the table and all of its data' },
+    { id: 'drop-column', severity: 'warning', description: 'DROP COLUMN deletes the column and its data, and breaks code that still reads it' },
+    { id: 'truncate', severity: 'warning', description: 'TRUNCATE deletes every row in the table' },
+    { id: 'index-not-concurrent', severity: 'warning', description: 'CREATE INDEX without CONCURRENTLY blocks writes to an existing table while it builds' },
+    { id: 'column-type-change', severity: 'warning', description: 'Changing a column type can rewrite the whole table under an exclusive lock' },
+    { id: 'missing-if-exists', severity: 'warning', description: 'DROP without IF EXISTS fails when the object is already gone' },
+    { id: 'missing-if-not-exists', severity: 'warning', description: 'CREATE or ADD COLUMN without IF NOT EXISTS fails when the object already exists' }
+];
+
+interface LintFinding {
+    rule: string;
+    severity: LintSeverity;
+    file: string;
+    line: number;
+    message: string;
+}
+
+// `-- lint:ignore drop-table truncate` silences those rules (or every rule, when none are listed) for the
+// statement on the same line, or for the next statement when the comment is on a line of its own
+const LINT_IGNORE_DIRECTIVE = /--\s*lint:ignore\b(.*)$/;
+
+// Effective level of every rule: the project config overrides the default severity
+const lintLevels = (): Record<string, LintLevel> => {
+    const configured = loadProjectConfig().lint.rules;
+    return Object.fromEntries(LINT_RULES.map(rule => [rule.id, configured[rule.id] ?? rule.severity]));
+};
+
+// Blank out comments, string literals and dollar-quoted bodies so keywords inside them don't match
+const maskSql = (sql: string) =>
+    sql.replace(/--[^\n]*|\/\*[\s\S]*?\*\/|\$([A-Za-z_][A-Za-z0-9_]*)?\$[\s\S]*?\$\1\$|'(?:[^']|'')*'/g, match => match.startsWith('-') || match.startsWith('/') ? ' ' : "''");
+
+const normalizeTableName = (name: string) => name.replace(/"/g, '').toLowerCase().replace(/^public\./, '');
+
+// Split on commas outside parentheses, e.g. the actions of an ALTER TABLE
+const splitTopLevel = (text: string) => {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        else if (text[i] === ')') depth--;
+        else if (text[i] === ',' && depth === 0) {
+            parts.push(text.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start).trim());
+    return parts.filter(part => part.length > 0);
+};
+
+// Check one statement. Tables created earlier in the same migration are tracked in `createdTables`, since
+// indexing, altering or filling a brand-new (empty) table doesn't carry the same risk.
+const lintStatement = (sql: string, createdTables: Set<string>, transactional: boolean) => {
+    const issues: { rule: string; message: string }[] = [];
+    const found = (rule: string, message: string) => issues.push({ rule, message });
+    const text = maskSql(sql).replace(/\s+/g, ' ').trim().replace(/;$/, '').trim();
+    let match: RegExpExecArray | null;
+
+    if ((match = /^CREATE (?:(?:GLOBAL |LOCAL )?TEMP(?:ORARY)? |UNLOGGED )?TABLE (IF NOT EXISTS )?([^\s(]+)/i.exec(text))) {
+        createdTables.add(normalizeTableName(match[2]!));
+        if (!match[1]) found('missing-if-not-exists', `CREATE TABLE ${match[2]} without IF NOT EXISTS`);
+    } else if ((match = /^CREATE (?:UNIQUE )?INDEX (CONCURRENTLY )?(IF NOT EXISTS )?(?:(\S+) )?ON (?:ONLY )?([^\s(]+)/i.exec(text))) {
+        const table = normalizeTableName(match[4]!);
+        if (match[1] && transactional) {
+            found('concurrently-in-transaction', `CREATE INDEX CONCURRENTLY on ${table} in a migration that runs inside a transaction`);
+        }
+        if (!match[1] && !createdTables.has(table)) {
+            found('index-not-concurrent', `CREATE INDEX on existing table ${table} without CONCURRENTLY`);
+        }
+        // Only named indexes can use IF NOT EXISTS
+        if (match[3] && !match[2]) found('missing-if-not-exists', `CREATE INDEX ${match[3]} without IF NOT EXISTS`);
+    } else if ((match = /^CREATE (SCHEMA|SEQUENCE|EXTENSION|MATERIALIZED VIEW) (IF NOT EXISTS )?/i.exec(text))) {
+        if (!match[2]) found('missing-if-not-exists', `CREATE ${match[1]!.toUpperCase()} without IF NOT EXISTS`);
+    } else if ((match = /^DROP (TABLE|VIEW|MATERIALIZED VIEW|INDEX|SEQUENCE|SCHEMA|TYPE|DOMAIN|FUNCTION|PROCEDURE|ROUTINE|TRIGGER|POLICY|EXTENSION) (CONCURRENTLY )?(IF EXISTS )?([^\s,]+)/i.exec(text))) {
+        const kind = match[1]!.toUpperCase();
+        if (kind === 'TABLE') found('drop-table', `DROP TABLE ${normalizeTableName(match[4]!)} deletes the table and its data`);
+        if (match[2] && transactional) {
+            found('concurrently-in-transaction', `DROP INDEX CONCURRENTLY in a migration that runs inside a transaction`);
+        }
+        if (!match[3]) found('missing-if-exists', `DROP ${kind} ${match[4]} without IF EXISTS`);
+    } else if ((match = /^TRUNCATE (?:TABLE )?(?:ONLY )?([^\s,]+)/i.exec(text))) {
+        found('truncate', `TRUNCATE ${normalizeTableName(match[1]!)} deletes every row`);
+    } else if (/^REINDEX\b.*\bCONCURRENTLY\b/i.test(text) && transactional) {
+        found('concurrently-in-transaction', 'REINDEX CONCURRENTLY in a migration that runs inside a transaction');
+    } else if ((match = /^ALTER TABLE (?:IF EXISTS )?(?:ONLY )?(\S+) (.*)$/i.exec(text))) {
+        const table = normalizeTableName(match[1]!);
+        const existing = !createdTables.has(table);
+
+        for (const action of splitTopLevel(match[2]!)) {
+            let part: RegExpExecArray | null;
+            if ((part = /^DROP CONSTRAINT (IF EXISTS )?(\S+)/i.exec(action))) {
+                if (!part[1]) found('missing-if-exists', `DROP CONSTRAINT ${part[2]} on ${table} without IF EXISTS`);
+            } else if ((part = /^DROP (?:COLUMN )?(IF EXISTS )?(\S+)/i.exec(action))) {
+                found('drop-column', `DROP COLUMN ${table}.${part[2]!.replace(/"/g, '')} deletes the column and its data`);
+                if (!part[1]) found('missing-if-exists', `DROP COLUMN ${table}.${part[2]!.replace(/"/g, '')} without IF EXISTS`);
+            } else if ((part = /^ADD (?:COLUMN )?(IF NOT EXISTS )?(\S+)(.*)$/i.exec(action))
+                && !/^(CONSTRAINT|PRIMARY|UNIQUE|FOREIGN|CHECK|EXCLUDE)$/i.test(part[2]!)) {
+                const column = `${table}.${part[2]!.replace(/"/g, '')}`;
+                const definition = part[3]!;
+                // serial types and generated columns fill existing rows on their own
+                if (existing && /\bNOT NULL\b/i.test(definition) && !/\b(DEFAULT|GENERATED)\b|\b(SMALL|BIG)?SERIAL\d?\b/i.test(definition)) {
+                    found('not-null-without-default', `ADD COLUMN ${column} is NOT NULL without a default`);
+                }
+                if (!part[1]) found('missing-if-not-exists', `ADD COLUMN ${column} without IF NOT EXISTS`);
+            } else if ((part = /^ALTER (?:COLUMN )?(\S+) (?:SET DATA )?TYPE\b/i.exec(action)) && existing) {
+                found('column-type-change', `Changing the type of ${table}.${part[1]!.replace(/"/g, '')} may rewrite the table`);
+            }
+        }
+    }
+
+    return issues;
+};
+
+// Lint the up section of a migration file. Findings point at the line the statement starts on.
+const lintMigrationFile = (filePath: string, levels: Record<string, LintLevel>): LintFinding[] => {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    // A squash baseline is pg_dump output of migrations that were linted before
+    if (MIGRATE_BASELINE.test(content)) return [];
+    const { up, transactional } = loadMigrationSections(path.dirname(filePath), path.basename(filePath));
+    const upOffset = Math.max(content.indexOf(up), 0);
+    const lineAt = (offset: number) => content.slice(0, offset).split('\n').length;
+
+    const statements = splitSqlStatementRanges(up).map(statement => {
+        const leading = /^(?:\s|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*/.exec(statement.sql)![0].length;
+        return {
+            sql: statement.sql.slice(leading),
+            startLine: lineAt(upOffset + statement.offset + leading),
+            endLine: lineAt(upOffset + statement.offset + statement.sql.trimEnd().length)
+        };
+    });
+
+    // Rules ignored per statement index; null means every rule
+    const ignored = new Map<number, Set<string> | null>();
+    content.split('\n').forEach((text, index) => {
+        const directive = LINT_IGNORE_DIRECTIVE.exec(text);
+        if (!directive) return;
+        const line = index + 1;
+        const rules = directive[1]!.split('--')[0]!.split(/[\s,]+/).filter(Boolean);
+        const sameLine = text.slice(0, directive.index).trim().length > 0;
+        const target = statements.findIndex(statement => sameLine
+            ? statement.startLine <= line && line <= statement.endLine
+            : statement.startLine > line);
+        if (target === -1) return;
+
+        const existing = ignored.get(target);
+        if (rules.length === 0 || existing === null) {
+            ignored.set(target, null);
+        } else {
+            ignored.set(target, new Set([...(existing ?? []), ...rules]));
+        }
+    });
+
+    const createdTables = new Set<string>();
+    const findings: LintFinding[] = [];
+    statements.forEach((statement, index) => {
+        for (const issue of lintStatement(statement.sql, createdTables, transactional)) {
+            const level = levels[issue.rule];
+            const suppressed = ignored.has(index) && (ignored.get(index) === null || ignored.get(index)!.has(issue.rule));
+            if (!level || level === 'off' || suppressed) continue;
+            findings.push({ rule: issue.rule, severity: level, file: filePath, line: statement.startLine, message: issue.message });
+        }
+    });
+    return findings;
+};
+
+const lintSummary = (findings: LintFinding[]) => {
+    const errors = findings.filter(finding => finding.severity === 'error').length;
+    return `${errors} error${errors === 1 ? '' : 's'}, ${findings.length - errors} warning${findings.length - errors === 1 ? '' : 's'}`;
+};
+
+const printLintFindings = (findings: LintFinding[]) => {
+    for (const finding of findings) {
+        const color = finding.severity === 'error' ? chalk.red : chalk.yellow;
+        console.log(color(`${finding.severity === 'error' ? '✗' : '⚠️ '} ${finding.file}:${finding.line}  ${finding.message}  [${finding.rule}]`));
+    }
+};
+
+// SARIF 2.1.0, the format code-scanning tools (such as GitHub code scanning) import
+const lintSarif = (findings: LintFinding[]) => ({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+        tool: {
+            driver: {
+                name: APPLICATION_NAME,
+                version: TOOL_VERSION,
+                rules: LINT_RULES.map(rule => ({
+                    id: rule.id,
+                    shortDescription: { text: rule.description },
+                    defaultConfiguration: { level: rule.severity }
+                }))
+            }
+        },
+        results: findings.map(finding => ({
+            ruleId: finding.rule,
+            level: finding.severity,
+            message: { text: finding.message },
+            locations: [{
+                physicalLocation: {
+                    artifactLocation: { uri: finding.file.split(path.sep).join('/') },
+                    region: { startLine: finding.line }
+                }
+            }]
+        }))
+    }]
+});
+
+const lint = (files: string[], option: any) => {
+    try {
+        if (!['human', 'json', 'sarif'].includes(option.format)) {
+            console.error(chalk.red(`Invalid --format value "${option.format}". Use human, json or sarif.`));
+            process.exitCode = 1;
+            return;
+        }
+        const human = option.format === 'human';
+
+        let targets = files;
+        if (targets.length === 0) {
+            const layout = loadMigrationLayout();
+            if (!layout.exists) {
+                console.error(chalk.red(`Migration directory ${layout.dir} does not exist. Please create some migrations first.`));
+                process.exitCode = 1;
+                return;
+            }
+            if (human) printLayoutWarnings(layout);
+            targets = [...layout.migrations, ...layout.repeatable].map(file => `${layout.dir}/${file}`);
+        }
+
+        const missing = targets.filter(file => !fs.existsSync(file));
+        if (missing.length > 0) {
+            console.error(chalk.red(`File not found: ${missing.join(', ')}`));
+            process.exitCode = 1;
+            return;
+        }
+
+        const levels = lintLevels();
+        const findings = targets.flatMap(file => lintMigrationFile(file, levels));
+
+        let report: string;
+        if (option.format === 'json') {
+            report = JSON.stringify({ files: targets, findings, summary: lintSummary(findings) }, null, 2) + '\n';
+        } else if (option.format === 'sarif') {
+            report = JSON.stringify(lintSarif(findings), null, 2) + '\n';
+        } else {
+            report = '';
+        }
+
+        if (option.output && !human) {
+            fs.writeFileSync(option.output, report);
+            console.log(chalk.green(`✓ Wrote ${option.format} report to ${option.output} (${lintSummary(findings)})`));
+        } else if (!human) {
+            process.stdout.write(report);
+        } else if (findings.length === 0) {
+            console.log(chalk.green(`✓ No issues found in ${targets.length} migration${targets.length === 1 ? '' : 's'}`));
+        } else {
+            printLintFindings(findings);
+            console.log(chalk.blue(`\n${lintSummary(findings)} in ${targets.length} migration${targets.length === 1 ? '' : 's'}`));
+        }
+
+        if (findings.some(finding => finding.severity === 'error')) {
+            process.exitCode = 1;
+        }
+    } catch (error) {
+        console.error(chalk.red('Error linting migrations:'), error);
+        process.exitCode = 1;
+    }
+};
+
+// === SECURITY CHECK ===
+
+// Roles PostgREST switches to for API requests without a session and with a signed-in user
+const API_ROLES = ['anon', 'authenticated'];
+
+interface SecurityFinding {
+    check: string;
+    severity: LintSeverity;
+    object: string;
+    message: string;
+}
+
+// Schemas PostgREST serves (PGRST_DB_SCHEMAS in the generated .env), or the template default without a .env
+const exposedSchemas = (): string[] => {
+    const env = readExistingEnv(`${loadProjectConfig().projectDir}/.env`);
+    const fallback = TEMPLATE_SETTINGS.find(setting => setting.env === 'PGRST_DB_SCHEMAS')!.default as string[];
+    return (env.PGRST_DB_SCHEMAS?.split(',') ?? fallback).map(schema => schema.trim()).filter(Boolean);
+};
+
+// Inspect the tables, views and functions in the given schemas for the usual ways data leaks through the API
+const securityFindings = async (client: DatabaseClient, schemas: string[]): Promise<SecurityFinding[]> => {
+    const inSchemas = `n.nspname = ANY(ARRAY[${schemas.map(quoteLiteral).join(', ')}]::text[])`;
+    const notFromExtension = (oid: string) => `NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = ${oid} AND d.deptype = 'e')`;
+    const roles = (await client.query<{ name: string }>(`SELECT rolname AS name FROM pg_roles WHERE rolname IN (${API_ROLES.map(quoteLiteral).join(', ')}) ORDER BY 1`))
+        .map(role => role.name);
+    const findings: SecurityFinding[] = [];
+
+    // The API roles that pass the given privilege check, e.g. "anon, authenticated"; empty when none do
+    const rolesWith = (check: (role: string) => string) =>
+        roles.length === 0 ? `''` : `concat_ws(', ', ${roles.map(role => `CASE WHEN ${check(quoteLiteral(role))} THEN ${quoteLiteral(role)} END`).join(', ')})`;
+
+    const relations = await client.query<{ object: string; kind: string; rls: boolean; policies: number; invoker: boolean; granted_to: string }>(`
+        SELECT format('%I.%I', n.nspname, c.relname) AS object, c.relkind::text AS kind, c.relrowsecurity AS rls,
+               (SELECT count(*)::int FROM pg_policy p WHERE p.polrelid = c.oid) AS policies,
+               EXISTS (SELECT 1 FROM unnest(c.reloptions) option WHERE option ~* '^security_invoker=(true|on|yes|1)$') AS invoker,
+               ${rolesWith(role => `has_table_privilege(${role}, c.oid, 'SELECT, INSERT, UPDATE, DELETE')`)} AS granted_to
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind IN ('r', 'p', 'v', 'm') AND ${inSchemas} AND ${notFromExtension('c.oid')}
+        ORDER BY 1
+    `);
+
+    for (const relation of relations) {
+        const grants = relation.granted_to ? ` (granted to ${relation.granted_to})` : '';
+        if ((relation.kind === 'r' || relation.kind === 'p') && !relation.rls) {
+            findings.push({ check: 'table-without-rls', severity: 'error', object: relation.object, message: `Row Level Security is off, so every row is readable and writable through the API by any role with privileges${grants}` });
+        } else if ((relation.kind === 'r' || relation.kind === 'p') && relation.policies === 0) {
+            findings.push({ check: 'rls-without-policies', severity: 'warning', object: relation.object, message: 'Row Level Security is on but there are no policies, so the API can\'t read or write any row' });
+        } else if (relation.kind === 'v' && !relation.invoker && relation.granted_to) {
+            findings.push({ check: 'view-bypasses-rls', severity: 'error', object: relation.object, message: `View runs with its owner's rights and bypasses RLS on the tables it reads${grants}; set security_invoker = true or revoke the grants` });
+        } else if (relation.kind === 'm' && relation.granted_to) {
+            findings.push({ check: 'materialized-view-exposed', severity: 'error', object: relation.object, message: `Materialized views have no Row Level Security${grants}` });
+        }
+    }
+
+    const functions = await client.query<{ object: string; search_path: boolean; executable_by: string }>(`
+        SELECT format('%I.%I(%s)', n.nspname, p.proname, pg_get_function_identity_arguments(p.oid)) AS object,
+               EXISTS (SELECT 1 FROM unnest(p.proconfig) setting WHERE setting LIKE 'search_path=%') AS search_path,
+               ${rolesWith(role => `has_function_privilege(${role}, p.oid, 'EXECUTE')`)} AS executable_by
+        FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+        WHERE p.prosecdef AND ${inSchemas} AND ${notFromExtension('p.oid')}
+        ORDER BY 1
+    `);
+
+    for (const fn of functions) {
+        if (!fn.search_path) {
+            findings.push({ check: 'definer-without-search-path', severity: 'error', object: fn.object, message: 'SECURITY DEFINER function without a fixed search_path can be hijacked by objects in schemas the caller controls; add SET search_path = \'\'' });
+        }
+        if (fn.executable_by) {
+            findings.push({ check: 'definer-function-executable', severity: 'warning', object: fn.object, message: `SECURITY DEFINER function can be called through the API as /rpc by ${fn.executable_by} and runs with its owner's rights` });
+        }
+    }
+
+    return findings;
+};
+
+const printSecurityFindings = (findings: SecurityFinding[]) => {
+    for (const finding of findings) {
+        const color = finding.severity === 'error' ? chalk.red : chalk.yellow;
+        console.log(color(`${finding.severity === 'error' ? '✗' : '⚠️ '} ${finding.object}  ${finding.message}  [${finding.check}]`));
+    }
+};
+
+// Print the findings as a table, or as the single JSON document that is all json mode writes to stdout.
+// Returns the number of errors.
+const printSecurityReport = (format: 'human' | 'json', schemas: string[], findings: SecurityFinding[]) => {
+    const errors = findings.filter(finding => finding.severity === 'error').length;
+    const summary = `${errors} error${errors === 1 ? '' : 's'}, ${findings.length - errors} warning${findings.length - errors === 1 ? '' : 's'}`;
+
+    if (format === 'json') {
+        process.stdout.write(JSON.stringify({ schemas, findings, summary }, null, 2) + '\n');
+    } else if (findings.length === 0) {
+        console.log(chalk.green('✓ No security issues found'));
+    } else {
+        printSecurityFindings(findings);
+        console.log(chalk.blue(`\n${summary}`));
+    }
+    return errors;
+};
+
+const securityCheck = async (option: any) => {
+    try {
+        if (!['human', 'json'].includes(option.format)) {
+            console.error(chalk.red(`Invalid --format value "${option.format}". Use human or json.`));
+            process.exitCode = 1;
+            return;
+        }
+        const human = option.format === 'human';
+        // Progress goes to stderr in json mode, so stdout is only the report
+        const log = human ? console.log : console.error;
+
+        const connection = resolveConnection(option, 'security-check', log);
+        if (!connection) {
+            process.exitCode = 1;
+            return;
+        }
+
+        const schemas: string[] = option.schema.length > 0 ? option.schema : exposedSchemas();
+        const ignored = new Set<string>(option.ignore);
+        const client = createDatabaseClient(connection, option.executor);
+
+        let findings: SecurityFinding[] | null = null;
+        try {
+            if (option.pending) {
+                // Inspect the database as it will be once the pending migrations are applied, using a shadow copy
+                const layout = loadMigrationLayout();
+                if (!layout.exists) {
+                    console.error(chalk.red(`Migration directory ${layout.dir} does not exist. Please create some migrations first.`));
+                    process.exitCode = 1;
+                    return;
+                }
+                const [tracking] = await client.query<{ exists: boolean }>(`SELECT to_regclass(${quoteLiteral(trackingTableName())}) IS NOT NULL AS exists`);
+                const { versioned: applied, repeatable: appliedRepeatables } = tracking?.exists
+                    ? await fetchTrackingRows(client)
+                    : { versioned: new Map<string, AppliedMigration>(), repeatable: new Map<string, AppliedMigration>() };
+                const { pending: versioned, behind } = separateBaselines(layout.dir, layout.migrations
+                    .filter(file => !applied.has(file.replace('.sql', '')))
+                    .map(file => pendingMigration(layout.dir, file)), applied);
+                if (behind.length > 0) {
+                    behind.forEach(message => console.error(chalk.red(`✗ ${message}`)));
+                    process.exitCode = 1;
+                    return;
+                }
+                const pending = [...versioned, ...changedRepeatables(layout, appliedRepeatables)];
+
+                log(chalk.blue(`Checking ${connection.database} with ${pending.length} pending migration${pending.length === 1 ? '' : 's'} applied, in schemas: ${schemas.join(', ')}`));
+                const passed = await validatePendingMigrations(client, layout, pending, applied.size === 0, { ...option, schema: schemas, checkRollback: false }, async shadowClient => {
+                    findings = await securityFindings(shadowClient, schemas);
+                }, log);
+                if (!passed) {
+                    console.error(chalk.red('The pending migrations do not apply, so they could not be checked.'));
+                    process.exitCode = 1;
+                    return;
+                }
+            } else {
+                log(chalk.blue(`Checking ${connection.database} at ${connection.host}:${connection.port} in schemas: ${schemas.join(', ')}`));
+                findings = await securityFindings(client, schemas);
+            }
+        } finally {
+            await client.close();
+        }
+
+        const reported = findings!.filter(finding => !ignored.has(finding.object) && !ignored.has(`${finding.check}:${finding.object}`));
+        const errors = printSecurityReport(option.format, schemas, reported);
+        if (errors > 0 || (option.strict && reported.length > 0)) {
+            process.exitCode = 1;
+        }
+    } catch (error) {
+        console.error(chalk.red('Error running the security check:'), error);
+        process.exitCode = 1;
+    }
+};
+
+interface PendingMigration {
+    file: string;
+    version: string;
+    up: string;
+    transactional: boolean;
+    checksum: string;
+    size: number;
+    repeatable: boolean;
+}
+
+// Only the up section is applied; the down section is kept for rollback
+const pendingMigration = (migrationDir: string, migrationFile: string): PendingMigration => {
+    const { up, transactional } = loadMigrationSections(migrationDir, migrationFile);
+    const { checksum, size } = computeMigrationChecksum(`${migrationDir}/${migrationFile}`);
+    return { file: migrationFile, version: migrationFile.replace('.sql', ''), up, transactional, checksum, size, repeatable: false };
+};
+
+// Repeatable migrations that never ran, or whose file changed since they last ran, in the order they apply
+const changedRepeatables = (layout: MigrationLayout, applied: Map<string, AppliedMigration>): PendingMigration[] =>
+    layout.repeatable.map(file => {
+        const { checksum, size } = computeMigrationChecksum(`${layout.dir}/${file}`);
+        return { file, version: file, up: fs.readFileSync(`${layout.dir}/${file}`, 'utf-8'), transactional: true, checksum, size, repeatable: true };
+    }).filter(migration => applied.get(migration.file)?.checksum !== migration.checksum);
+
+const recordSql = (migration: PendingMigration) => migration.repeatable
+    ? recordRepeatableSql(migration.file, migration.checksum, migration.size)
+    : recordMigrationSql(migration.version, migration.checksum, migration.size);
+
+// A baseline written by squash stands in for the migrations it replaces. A database that already has them
+// only records the baseline as applied; one that stopped part-way must first be migrated with the archived files.
+const separateBaselines = (migrationDir: string, pending: PendingMigration[], applied: Map<string, AppliedMigration>) => {
+    const result = { pending: [] as PendingMigration[], recorded: [] as PendingMigration[], behind: [] as string[] };
+    for (const migration of pending) {
+        const replaces = applied.size > 0 ? baselineOf(migrationDir, migration.file) : null;
+        if (!replaces) {
+            result.pending.push(migration);
+        } else if (applied.has(replaces)) {
+            result.recorded.push(migration);
+        } else {
+            result.behind.push(`${migration.file} replaces migrations up to ${replaces}, which this database has not applied`);
+        }
+    }
+    return result;
+};
+
+// Wrap a section of a file so psql reports errors at the line they have in that file
+const lineAlignedScript = (sourcePath: string, sql: string, transactional: boolean) => {
+    const content = fs.readFileSync(sourcePath, 'utf-8');
+    const startLine = content.slice(0, Math.max(content.indexOf(sql), 0)).split('\n').length;
+    const padding = '\n'.repeat(startLine - 1);
+    return transactional ? `BEGIN;${padding}${sql}\n;\nCOMMIT;\n` : `${padding}${sql}`;
+};
+
+// Run one file (or section of it) in the shadow database. A failure is printed with the file and line.
+const runShadowStep = async (shadow: ShadowDatabase, label: string, sourcePath: string, sql: string, transactional: boolean) => {
+    try {
+        await shadow.execute(lineAlignedScript(sourcePath, sql, transactional));
+        return true;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(chalk.red(`✗ ${label} failed:`));
+        console.error(chalk.red(message.replace(/psql:<stdin>:/g, `${sourcePath}:`).split('\n').map(line => `    ${line}`).join('\n')));
+        return false;
+    }
+};
+
+// Apply the pending migrations to a shadow copy of the target's schema, optionally rolling them back and
+// re-applying them. Reports the first failure with its file and line and returns false. `inspect` gets the
+// shadow database once everything applied, before it is removed. Progress goes to `log`.
+// How the shadow database that validates pending migrations is set up
+interface ShadowOptions {
+    schema: string[];
+    shadowImage?: string;
+    checkRollback?: boolean;
+}
+
+const validatePendingMigrations = async (client: DatabaseClient, layout: MigrationLayout, pending: PendingMigration[], freshDatabase: boolean, options: ShadowOptions, inspect?: (shadowClient: DatabaseClient) => Promise<void>, log: Logger = console.log): Promise<boolean> => {
+    const config = loadProjectConfig();
+    const image: string = options.shadowImage ?? config.dockerImage;
+    const schemas: string[] = options.schema.length > 0 ? options.schema : ['public'];
+    log(chalk.blue(`\nValidating ${pending.length} pending migration${pending.length === 1 ? '' : 's'} against a copy of the target schema (${schemas.join(', ')})...`));
+
+    // Roles and extensions live outside the copied schemas, so they are recreated first
+    const roles = await client.query<{ name: string }>(`SELECT rolname AS name FROM pg_roles WHERE rolname !~ '^pg_' ORDER BY 1`);
+    const extensions = await client.query<{ name: string; schema: string }>(`SELECT e.extname AS name, n.nspname AS schema FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace WHERE e.extname <> 'plpgsql' ORDER BY 1`);
+    const dump = await dockerPgDump(client.connection, ['--schema-only', '--no-owner', ...schemas.flatMap(schema => ['--schema', schema])]).quiet();
+
+    const shadow = await startShadowDatabase(image, log);
+    try {
+        const shadowClient = createNativeClient(shadow.connection);
+        try {
+            for (const role of roles) {
+                await shadowClient.execute(`DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = ${quoteLiteral(role.name)}) THEN CREATE ROLE ${quoteIdent(role.name)} NOLOGIN; END IF; END $$;`);
+            }
+            const missingExtensions: string[] = [];
+            for (const extension of extensions) {
+                try {
+                    await shadowClient.execute(`CREATE SCHEMA IF NOT EXISTS ${quoteIdent(extension.schema)}; CREATE EXTENSION IF NOT EXISTS ${quoteIdent(extension.name)} WITH SCHEMA ${quoteIdent(extension.schema)};`);
+                } catch {
+                    missingExtensions.push(extension.name);
+                }
+            }
+            if (missingExtensions.length > 0) {
+                log(chalk.yellow(`⚠️  Extensions not available in ${image}: ${missingExtensions.join(', ')}. Migrations that use them will fail validation.`));
+            }
+
+            try {
+                await shadow.execute(dump.stdout.toString());
+            } catch (error) {
+                console.error(chalk.red('✗ Could not copy the target schema into the shadow database:'), error instanceof Error ? error.message : error);
+                log(chalk.yellow('Use an image that matches the target, e.g. --shadow-image supabase/postgres:<version>'));
+                return false;
+            }
+            log(chalk.green('✓ Target schema copied into the shadow database'));
+
+            const runStep = (label: string, sourcePath: string, sql: string, transactional: boolean) =>
+                runShadowStep(shadow, label, sourcePath, sql, transactional);
+
+            if (layout.schemaPre && freshDatabase) {
+                if (!(await runStep('schema-pre.sql', layout.schemaPre, fs.readFileSync(layout.schemaPre, 'utf-8'), true))) return false;
+            }
+
+            // Repeatable migrations run last and have nothing to roll back, so they stay out of the rollback check
+            const versioned = pending.filter(migration => !migration.repeatable);
+            const before = options.checkRollback ? await readCatalog(shadowClient, schemas) : null;
+            for (const migration of versioned) {
+                if (!(await runStep(migration.file, `${layout.dir}/${migration.file}`, migration.up, migration.transactional))) return false;
+                log(chalk.green(`✓ ${migration.file} applies cleanly`));
+            }
+
+            if (before) {
+                for (const migration of [...versioned].reverse()) {
+                    const { down, downSource } = loadMigrationSections(layout.dir, migration.file);
+                    if (!hasExecutableSql(down)) {
+                        console.error(chalk.red(`✗ ${migration.file} has no down section, so it cannot be rolled back`));
+                        return false;
+                    }
+                    if (!(await runStep(`Rolling back ${migration.file}`, `${layout.dir}/${downSource}`, down!, migration.transactional))) return false;
+                }
+
+                // The down sections should leave the schema exactly as they found it
+                const leftovers = diffCatalogs(await readCatalog(shadowClient, schemas), before).statements;
+                if (leftovers.length > 0) {
+                    console.error(chalk.red('✗ Rolling back the pending migrations does not restore the original schema. Still needed:'));
+                    leftovers.forEach(statement => console.error(chalk.red(`    ${statement.sql.split('\n')[0]}`)));
+                    return false;
+                }
+                log(chalk.green('✓ Rollback restores the original schema'));
+
+                for (const migration of versioned) {
+                    if (!(await runStep(`Re-applying ${migration.file}`, `${layout.dir}/${migration.file}`, migration.up, migration.transactional))) return false;
+                }
+                log(chalk.green('✓ Migrations re-apply cleanly after rollback'));
+            }
+
+            for (const migration of pending.filter(migration => migration.repeatable)) {
+                if (!(await runStep(migration.file, `${layout.dir}/${migration.file}`, migration.up, true))) return false;
+                log(chalk.green(`✓ ${migration.file} applies cleanly`));
+            }
+
+            if (layout.schemaPost && !(await runStep(path.basename(layout.schemaPost), layout.schemaPost, fs.readFileSync(layout.schemaPost, 'utf-8'), true))) return false;
+
+            log(chalk.green('✓ Validation passed'));
+            await inspect?.(shadowClient);
+            return true;
+        } finally {
+            await shadowClient.close();
+        }
+    } finally {
+        await shadow.stop();
+    }
+};
+
+const atomicMigrationScript = (pending: PendingMigration[]) => transactionScript(...pending.flatMap(migration => [
+    `-- ${migration.file}\n${migration.up}`,
+    recordSql(migration)
+]));
+
+// The steps migrate runs after validation, with the SQL it sends for each
+const migrationPlan = (layout: MigrationLayout, pending: PendingMigration[], recordedBaselines: PendingMigration[], freshDatabase: boolean, atomic: boolean): PlanStep[] => {
+    const steps: PlanStep[] = [{ label: `create or upgrade the tracking table ${trackingTableName()}`, sql: migrationsTableSql() }];
+    for (const baseline of recordedBaselines) {
+        steps.push({ label: `record ${baseline.file} as applied (the database has the migrations it replaces)`, sql: recordMigrationSql(baseline.version, baseline.checksum, baseline.size) });
+    }
+    if (layout.schemaPre && freshDatabase) {
+        steps.push({ label: `${layout.schemaPre} (no migrations applied yet)`, sql: fs.readFileSync(layout.schemaPre, 'utf-8') });
     }
+    if (atomic && pending.length > 0) {
+        steps.push({ label: `${pending.length} migration${pending.length === 1 ? '' : 's'} in one transaction: ${pending.map(migration => migration.file).join(', ')}`, sql: atomicMigrationScript(pending) });
+    } else {
+        for (const migration of pending) {
+            const record = recordSql(migration);
+            steps.push(migration.transactional
+                ? { label: `${layout.dir}/${migration.file}${migration.repeatable ? ' (repeatable, changed)' : ''}`, sql: transactionScript(migration.up, record) }
+                : { label: `${layout.dir}/${migration.file} (no transaction)`, sql: `${migration.up}\n;\n${record}` });
+        }
+    }
+    if (layout.schemaPost) {
+        steps.push({ label: layout.schemaPost, sql: fs.readFileSync(layout.schemaPost, 'utf-8') });
+    }
+    return steps;
+};
+
+interface MigrateOptions extends ConnectionOptions, ShadowOptions {
+    executor: string;
+    target?: string;
+    allowDrift?: boolean;
+    atomic?: boolean;
+    validate?: boolean;
+    validateOnly?: boolean;
+    dryRun?: boolean;
+    emitSql?: string;
+    lockTimeout?: string;
+    skipLint?: boolean;
+    // Set by compare --promote: apply only these versions and repeatable migration files
+    versions?: string[];
+    repeatables?: string[];
 }
 
-const migrate = async (option: any) => {
+const migrate = async (option: MigrateOptions) => {
     try {
         console.log(chalk.blue('Starting migration...'));
 
-        // Check if any options are provided
-        let usingEnv: boolean;
-        let usingOptions: boolean;
+        const connection = resolveConnection(option, 'migrate');
+        if (!connection) {
+            return;
+        }
+        const { host, port, user, database } = connection;
 
-        if (!option.host && !option.port && !option.user && !option.database) {
-            usingEnv = true;
-            usingOptions = false;
-        } else {
-            usingEnv = false;
-            usingOptions = true;
+        const lockTimeout = parseLockTimeout(option.lockTimeout);
+        if (lockTimeout === null) {
+            console.error(chalk.red(`Invalid --lock-timeout value "${option.lockTimeout}". Please pass a number of seconds.`));
+            return;
         }
 
-        // Check if options are provided and completed
-        if (usingOptions && (!option.host || !option.port || !option.user || !option.database)) {
-            console.error(chalk.red('Please provide all required database connection options: host, port, user, database.'));
-            console.log(chalk.yellow("It is recommended to pass these as environment variables directly before the command instead, e.g.:"));
-            console.log(chalk.yellow("POSTGRES_HOST=localhost POSTGRES_PORT=5432 POSTGRES_USER=postgres POSTGRES_DB=postgres <bootstrappper-app> migrate"));
+        console.log(chalk.blue(`Migrating database ${database} at ${host}:${port} as user ${user}...`));
+
+        // Ensure migration directory exists
+        const layout = loadMigrationLayout();
+        const { dir: migrationDir, migrations: migrationFiles } = layout;
+        if (!layout.exists) {
+            console.error(chalk.red(`Migration directory ${migrationDir} does not exist. Please create some migrations first.`));
+            return;
+        }
+        printLayoutWarnings(layout);
+
+        const preview = Boolean(option.dryRun || option.emitSql);
+        const client = createDatabaseClient(connection, option.executor);
+        // A preview only reads, so it doesn't wait for other runs to finish
+        const lock = preview ? null : await acquireMigrationLock(client, lockTimeout);
+        if (!preview && !lock) {
+            await client.close();
+            process.exitCode = 1;
             return;
         }
 
-        if (usingEnv) {
-            // Check environment variables
-            const requiredEnvVars = [
-                'POSTGRES_HOST',
-                'POSTGRES_PORT',
-                'POSTGRES_USER',
-                'POSTGRES_DB'
-            ];
+        try {
+            // Get applied migrations. Nothing is written until the pending ones are known (and validated)
+            let appliedMigrations = new Map<string, AppliedMigration>();
+            let appliedRepeatables = new Map<string, AppliedMigration>();
+            try {
+                const [tracking] = await client.query<{ exists: boolean }>(`SELECT to_regclass(${quoteLiteral(trackingTableName())}) IS NOT NULL AS exists`);
+                if (tracking?.exists) {
+                    ({ versioned: appliedMigrations, repeatable: appliedRepeatables } = await fetchTrackingRows(client));
+                }
+            } catch (error) {
+                console.log(chalk.yellow('Could not fetch applied migrations, assuming fresh database...'));
+            }
+
+            // Refuse to build on top of migrations that no longer match what was applied
+            const drift = detectMigrationDrift(migrationDir, migrationFiles, appliedMigrations);
+            if (drift.length > 0) {
+                printMigrationDrift(drift);
+                if (!option.allowDrift) {
+                    console.error(chalk.red('\nRefusing to migrate while drift is present. Restore the original files, or re-run with --allow-drift to continue anyway.'));
+                    process.exitCode = 1;
+                    return;
+                }
+                console.log(chalk.yellow('\n⚠️  --allow-drift set - continuing despite drift'));
+            }
+
+            // If target is specified, find its index
+            let targetIndex = migrationFiles.length - 1;
+            const target = option.target;
+            if (target) {
+                const targetFile = migrationFiles.find(file => file.includes(target));
+                if (!targetFile) {
+                    console.error(chalk.red(`Target migration ${target} not found in ${migrationDir}.`));
+                    return;
+                }
+                targetIndex = migrationFiles.indexOf(targetFile);
+            }
+
+            // Collect the pending migrations up to target
+            const unapplied: PendingMigration[] = [];
+            for (let i = 0; i <= targetIndex; i++) {
+                const migrationFile = migrationFiles[i];
+                if (!migrationFile) continue;
+                // promote passes the exact versions to apply
+                if (option.versions && !option.versions.includes(migrationFile.replace('.sql', ''))) continue;
+
+                if (!appliedMigrations.has(migrationFile.replace('.sql', ''))) {
+                    unapplied.push(pendingMigration(migrationDir, migrationFile));
+                } else {
+                    console.log(chalk.yellow(`⚬ Skipping already applied migration: ${migrationFile}`));
+                }
+            }
+
+            const { pending: versionedMigrations, recorded: recordedBaselines, behind } = separateBaselines(migrationDir, unapplied, appliedMigrations);
+            if (behind.length > 0) {
+                behind.forEach(message => console.error(chalk.red(`✗ ${message}`)));
+                console.error(chalk.red(`\nCheck out the commit before the squash and migrate ${database} with the original files, then run migrate again.`));
+                process.exitCode = 1;
+                return;
+            }
+
+            // Repeatable migrations that changed run after the versioned ones. With --target they wait, since they may
+            // rely on migrations past the target; promote passes the ones to apply.
+            const changed = changedRepeatables(layout, appliedRepeatables);
+            let repeatables = changed;
+            if (option.target) {
+                repeatables = [];
+                if (changed.length > 0) {
+                    console.log(chalk.yellow(`⚬ Skipping ${changed.length} changed repeatable migration${changed.length === 1 ? '' : 's'} because --target is set`));
+                }
+            } else if (option.versions) {
+                repeatables = changed.filter(migration => option.repeatables?.includes(migration.file));
+            }
+            const pendingMigrations = [...versionedMigrations, ...repeatables];
+
+            // Lint what is about to run; warnings are shown, errors stop the run
+            if (!option.skipLint && pendingMigrations.length > 0) {
+                const levels = lintLevels();
+                const findings = pendingMigrations.flatMap(migration => lintMigrationFile(`${migrationDir}/${migration.file}`, levels));
+                if (findings.length > 0) {
+                    printLintFindings(findings);
+                    console.log(chalk.blue(`Lint: ${lintSummary(findings)}`));
+                }
+                if (findings.some(finding => finding.severity === 'error')) {
+                    console.error(chalk.red(`\nRefusing to migrate with lint errors. Fix them, add "-- lint:ignore <rule>" to the statement, change the rule level in ${PROJECT_CONFIG_PATH}, or re-run with --skip-lint.`));
+                    process.exitCode = 1;
+                    return;
+                }
+            }
+
+            if (option.atomic) {
+                const nonTransactional = pendingMigrations.filter(migration => !migration.transactional);
+                if (nonTransactional.length > 0) {
+                    console.error(chalk.red('--atomic cannot be used with migrations marked "-- migrate:no-transaction":'));
+                    nonTransactional.forEach(migration => console.error(chalk.red(`  • ${migration.file}`)));
+                    return;
+                }
+            }
+
+            if (option.validate || option.validateOnly || option.checkRollback) {
+                if (pendingMigrations.length === 0) {
+                    console.log(chalk.green('✓ No pending migrations to validate'));
+                } else if (!(await validatePendingMigrations(client, layout, pendingMigrations, appliedMigrations.size === 0, option))) {
+                    console.error(chalk.red(`\nValidation failed - nothing was applied to ${database}.`));
+                    process.exitCode = 1;
+                    return;
+                }
+                if (option.validateOnly) {
+                    console.log(chalk.yellow(`\n--validate-only set - nothing was applied to ${database}.`));
+                    return;
+                }
+            }
 
-            for (const varName of requiredEnvVars) {
-                if (!process.env[varName]) {
-                    console.error(chalk.red(`Environment variable ${varName} is not set. Please set it before running the migrate command.`));
+            if (preview) {
+                const steps = migrationPlan(layout, pendingMigrations, recordedBaselines, appliedMigrations.size === 0, option.atomic ?? false);
+                printPlan(`migrate would run, in order:`, steps);
+                if (option.emitSql) {
+                    writePlanScript(option.emitSql, 'migrate', connection, planScript(steps));
+                }
+                console.log(chalk.yellow(`Dry run: nothing was applied to ${database}.`));
+                return;
+            }
+
+            console.log(chalk.blue('Ensuring migrations tracking table exists...'));
+            try {
+                await client.execute(migrationsTableSql());
+            } catch (error) {
+                console.error(chalk.red('Failed to create migrations table:'), error);
+                return;
+            }
+
+            for (const baseline of recordedBaselines) {
+                await client.execute(recordMigrationSql(baseline.version, baseline.checksum, baseline.size));
+                console.log(chalk.green(`✓ Recorded baseline ${baseline.file} as applied; this database already has the migrations it replaces`));
+            }
+
+            // Apply the baseline schema if it exists and no migrations have been applied yet
+            if (layout.schemaPre && appliedMigrations.size === 0) {
+                console.log(chalk.blue('Applying schema-pre.sql...'));
+                await client.execute(fs.readFileSync(layout.schemaPre, 'utf-8'));
+            }
+
+            if (option.atomic && pendingMigrations.length > 0) {
+                console.log(chalk.blue(`Applying ${pendingMigrations.length} migration${pendingMigrations.length === 1 ? '' : 's'} in a single transaction...`));
+                try {
+                    await client.execute(atomicMigrationScript(pendingMigrations));
+                    pendingMigrations.forEach(migration => console.log(chalk.green(`✓ Applied migration: ${migration.file}`)));
+                } catch (error) {
+                    console.error(chalk.red('✗ Failed to apply migration batch - no migrations were applied'), error);
                     return;
                 }
+            } else {
+                for (const migration of pendingMigrations) {
+                    console.log(chalk.blue(`Applying migration: ${migration.file}`));
+                    try {
+                        if (migration.transactional) {
+                            // Apply the migration and mark it as applied in one transaction, so a failure leaves nothing behind
+                            await client.execute(transactionScript(
+                                migration.up,
+                                recordSql(migration)
+                            ));
+                        } else {
+                            console.log(chalk.yellow(`⚠️  ${migration.file} is marked no-transaction - a failure may leave it partially applied`));
+                            await client.execute(migration.up);
+                            await client.execute(recordSql(migration));
+                        }
+                        console.log(chalk.green(`✓ Applied migration: ${migration.file}`));
+                    } catch (error) {
+                        console.error(chalk.red(`✗ Failed to apply migration: ${migration.file}`), error);
+                        return;
+                    }
+                }
+            }
+
+            // Apply schema-post if it exists (always run this as it contains constraints, indexes, etc.)
+            if (layout.schemaPost) {
+                console.log(chalk.blue('Applying schema-post.sql...'));
+                await client.execute(fs.readFileSync(layout.schemaPost, 'utf-8'));
             }
+
+            console.log(chalk.green('Migration completed successfully.'));
+        } finally {
+            await lock?.release();
+            await client.close();
         }
+    } catch (error) {
+        console.error(chalk.red('Error during migration:'), error);
+    }
+}
 
-        const host = usingEnv ? process.env.POSTGRES_HOST : option.host;
-        const port = usingEnv ? process.env.POSTGRES_PORT : option.port;
-        const user = usingEnv ? process.env.POSTGRES_USER : option.user;
-        const database = usingEnv ? process.env.POSTGRES_DB : option.database;
-        const password = process.env.POSTGRES_PASSWORD; // Always from env for security
+interface RollbackOptions extends ConnectionOptions {
+    executor: string;
+    steps?: string;
+    target?: string;
+    allowDrift?: boolean;
+    lockTimeout?: string;
+}
+
+const rollback = async (options: RollbackOptions) => {
+    try {
+        console.log(chalk.blue('Starting rollback...'));
 
-        if(!password) {
-            console.error(chalk.red('Environment variable POSTGRES_PASSWORD is not set. Please set it before running the migrate command.'));
+        const connection = resolveConnection(options, 'rollback');
+        if (!connection) {
             return;
         }
+        const { host, port, user, database } = connection;
 
-        console.log(chalk.blue(`Migrating database ${database} at ${host}:${port} as user ${user}...`));
+        const lockTimeout = parseLockTimeout(options.lockTimeout);
+        if (lockTimeout === null) {
+            console.error(chalk.red(`Invalid --lock-timeout value "${options.lockTimeout}". Please pass a number of seconds.`));
+            return;
+        }
 
-        // Ensure migration directory exists
-        const migrationDir = 'supabase-project/migrations';
-        if (!fs.existsSync(migrationDir)) {
-            console.error(chalk.red(`Migration directory ${migrationDir} does not exist. Please create some migrations first.`));
+        const steps = Number.parseInt(options.steps ?? '1', 10);
+        if (!options.target && (!Number.isInteger(steps) || steps < 1)) {
+            console.error(chalk.red(`Invalid --steps value "${options.steps}". Please pass a positive number.`));
             return;
         }
 
-        // Read migration files and sort them (excluding pre-data.sql, post-data.sql, data.sql)
-        const migrationFiles = fs.readdirSync(migrationDir)
-            .filter(file => file.endsWith('.sql') &&
-                    !['schema-pre.sql', 'schema-post.sql', 'data.sql'].includes(file))
-            .sort();
+        console.log(chalk.blue(`Rolling back database ${database} at ${host}:${port} as user ${user}...`));
 
-        // Get absolute paths for Docker volume mounting
-        const absoluteMigrationDir = require('path').resolve(migrationDir);
+        const layout = loadMigrationLayout();
+        const migrationDir = layout.dir;
+        printLayoutWarnings(layout);
 
-        // Create migrations tracking table if it doesn't exist
-        const createMigrationsTable = `
-            CREATE TABLE IF NOT EXISTS schema_migrations (
-                version VARCHAR(255) PRIMARY KEY,
-                applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-            );
-        `;
+        const client = createDatabaseClient(connection, options.executor);
+        const lock = await acquireMigrationLock(client, lockTimeout);
+        if (!lock) {
+            await client.close();
+            process.exitCode = 1;
+            return;
+        }
 
-        console.log(chalk.blue('Ensuring migrations tracking table exists...'));
         try {
-            await $`docker run --rm -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -c ${createMigrationsTable}`;
-        } catch (error) {
-            console.error(chalk.red('Failed to create migrations table:'), error);
+            let appliedMigrations: Map<string, AppliedMigration>;
+            try {
+                appliedMigrations = await fetchAppliedMigrations(client);
+            } catch (error) {
+                console.error(chalk.red(`Could not fetch applied migrations (${trackingTableName()} may not exist).`), error);
+                return;
+            }
+
+            // Newest first, since migrations are undone in reverse order
+            const appliedVersions = [...appliedMigrations.keys()].sort().reverse();
+            if (appliedVersions.length === 0) {
+                console.log(chalk.yellow('No applied migrations to roll back.'));
+                return;
+            }
+
+            let versionsToRollback: string[];
+            const target = options.target;
+            if (target) {
+                // Roll back everything applied after the target; the target itself stays applied
+                const targetVersion = appliedVersions.find(version => version.includes(target));
+                if (!targetVersion) {
+                    console.error(chalk.red(`Target migration ${target} is not an applied migration.`));
+                    return;
+                }
+                versionsToRollback = appliedVersions.filter(version => version > targetVersion);
+            } else {
+                versionsToRollback = appliedVersions.slice(0, steps);
+            }
+
+            if (versionsToRollback.length === 0) {
+                console.log(chalk.yellow('Nothing to roll back.'));
+                return;
+            }
+
+            // Make sure every migration can be reversed before touching the database
+            const plan: { version: string; down: string; downSource: string; transactional: boolean }[] = [];
+            for (const version of versionsToRollback) {
+                const migrationFile = `${version}.sql`;
+                if (!layout.migrations.includes(migrationFile)) {
+                    console.error(chalk.red(`✗ Cannot roll back ${version}: ${migrationFile} is missing from ${migrationDir}.`));
+                    return;
+                }
+
+                const drift = detectMigrationDrift(migrationDir, [migrationFile], new Map([[version, appliedMigrations.get(version)!]]));
+                if (drift.length > 0) {
+                    printMigrationDrift(drift);
+                    if (!options.allowDrift) {
+                        console.error(chalk.red('\nRefusing to roll back a migration that changed since it was applied. Re-run with --allow-drift to use the current file anyway.'));
+                        process.exitCode = 1;
+                        return;
+                    }
+                }
+
+                const { down, downSource, transactional } = loadMigrationSections(migrationDir, migrationFile);
+                if (!hasExecutableSql(down)) {
+                    console.error(chalk.red(`✗ Cannot roll back ${version}: no down migration found.`));
+                    console.log(chalk.yellow(`Add a "-- migrate:down" section to ${migrationFile} or create ${version}.down.sql.`));
+                    return;
+                }
+                plan.push({ version, down: down!, downSource: downSource!, transactional });
+            }
+
+            console.log(chalk.blue(`Rolling back ${plan.length} migration${plan.length === 1 ? '' : 's'}:`));
+            plan.forEach(step => console.log(chalk.blue(`  • ${step.version} (${step.downSource})`)));
+
+            for (const step of plan) {
+                console.log(chalk.blue(`Reverting migration: ${step.version}`));
+                try {
+                    // Forget the migration so a later migrate applies it again
+                    const forgetSql = `DELETE FROM ${trackingTableName()} WHERE version = ${quoteLiteral(step.version)};`;
+                    if (step.transactional) {
+                        await client.execute(transactionScript(step.down, forgetSql));
+                    } else {
+                        await client.execute(step.down);
+                        await client.execute(forgetSql);
+                    }
+                    console.log(chalk.green(`✓ Reverted migration: ${step.version}`));
+                } catch (error) {
+                    console.error(chalk.red(`✗ Failed to revert migration: ${step.version}`), error);
+                    return;
+                }
+            }
+
+            console.log(chalk.green('Rollback completed successfully.'));
+        } finally {
+            await lock.release();
+            await client.close();
+        }
+    } catch (error) {
+        console.error(chalk.red('Error during rollback:'), error);
+    }
+}
+
+// Utility function to validate database connection
+const validateDatabaseConnection = async (client: DatabaseClient): Promise<boolean> => {
+    try {
+        console.log(chalk.blue(`Testing database connection (${client.executor} executor)...`));
+        await client.query('SELECT 1');
+        console.log(chalk.green('✓ Database connection successful'));
+        return true;
+    } catch (error) {
+        console.error(chalk.red('✗ Database connection failed:'), error);
+        return false;
+    }
+};
+
+// <timestamp>_<slug>.sql for a new migration, or null when the name has no usable characters. The slug keeps
+// the name within the migrations layout (<version>_<name>.sql) so the loader picks the file up.
+const newMigrationFileName = (name: string, timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '')) => {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '');
+    return slug ? `${timestamp}_${slug}.sql` : null;
+};
+
+// Create a new migration file
+const createMigration = (name: string) => {
+    try {
+        const filename = newMigrationFileName(name);
+        if (!filename) {
+            console.error(chalk.red(`✗ "${name}" has no letters or digits to build a file name from.`));
+            process.exitCode = 1;
+            return;
+        }
+        const migrationDir = loadProjectConfig().migrationsDir;
+
+        fs.ensureDirSync(migrationDir);
+
+        const migrationPath = `${migrationDir}/${filename}`;
+        const template = `-- Migration: ${name}
+-- Created at: ${new Date().toISOString()}
+-- 
+-- Add your SQL statements in the up section, and the statements that undo them
+-- in the down section so the \`rollback\` command can reverse this migration
+
+-- migrate:up
+
+-- Example:
+-- CREATE TABLE IF NOT EXISTS example_table (
+--     id SERIAL PRIMARY KEY,
+--     name VARCHAR(255) NOT NULL,
+--     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+-- );
+
+-- migrate:down
+
+-- Example:
+-- DROP TABLE IF EXISTS example_table;
+
+`;
+
+        fs.writeFileSync(migrationPath, template);
+        console.log(chalk.green(`✓ Created migration file: ${migrationPath}`));
+        console.log(chalk.blue('Edit the file to add your SQL statements, then run the migrate command.'));
+    } catch (error) {
+        console.error(chalk.red('Error creating migration:'), error);
+    }
+};
+
+// === SQUASH ===
+// squash replaces the migrations up to a version with a single baseline: the files are applied to an empty
+// shadow database, pg_dump turns the result into one migration, and the originals move to archiveDir.
+
+// Apply the squashed files to an empty shadow database and return the baseline's up section, or null if a file fails
+const buildBaseline = async (layout: MigrationLayout, squashed: string[], options: any): Promise<string | null> => {
+    const shadow = options.shadowUrl
+        ? connectShadowDatabase(options.shadowUrl)
+        : await startShadowDatabase(options.shadowImage ?? loadProjectConfig().dockerImage);
+    try {
+        const shadowClient = createNativeClient(shadow.connection);
+        try {
+            // What the image already has is left out of the baseline
+            const snapshot = async () => ({
+                schemas: (await shadowClient.query<{ name: string }>(`SELECT nspname AS name FROM pg_namespace WHERE nspname !~ '^pg_' AND nspname <> 'information_schema' ORDER BY oid`)).map(row => row.name),
+                extensions: await shadowClient.query<{ name: string; schema: string }>(`SELECT e.extname AS name, n.nspname AS schema FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace ORDER BY e.oid`),
+                roles: (await shadowClient.query<{ name: string }>(`SELECT rolname AS name FROM pg_roles ORDER BY oid`)).map(row => row.name)
+            });
+            const before = await snapshot();
+
+            if (layout.schemaPre && !(await runShadowStep(shadow, 'schema-pre.sql', layout.schemaPre, fs.readFileSync(layout.schemaPre, 'utf-8'), true))) {
+                return null;
+            }
+            for (const file of squashed) {
+                const { up, transactional } = loadMigrationSections(layout.dir, file);
+                if (!(await runShadowStep(shadow, file, `${layout.dir}/${file}`, up, transactional))) return null;
+            }
+            console.log(chalk.green(`✓ Applied ${squashed.length} migration${squashed.length === 1 ? '' : 's'} to the shadow database`));
+
+            const after = await snapshot();
+            const schemas: string[] = options.schema.length > 0
+                ? options.schema
+                : ['public', ...after.schemas.filter(schema => schema !== 'public' && !before.schemas.includes(schema))];
+            const extensions = after.extensions.filter(extension => !before.extensions.some(existing => existing.name === extension.name));
+            const roles = after.roles.filter(role => !before.roles.includes(role));
+            if (roles.length > 0) {
+                console.log(chalk.yellow(`⚠️  Roles are not part of a pg_dump of schemas, so the baseline does not create: ${roles.join(', ')}. Add them to the baseline by hand.`));
+            }
+
+            console.log(chalk.blue(`Dumping schemas ${schemas.join(', ')} from the shadow database...`));
+            const dump = (await shadow.dump(['--no-owner', '--column-inserts', ...schemas.flatMap(schema => ['--schema', schema])]))
+                // Schemas an extension lives in are created before the extension, below
+                .replace(/^CREATE SCHEMA (\S+);$/gm, 'CREATE SCHEMA IF NOT EXISTS $1;')
+                // psql meta-commands from newer pg_dump versions, and a setting older servers don't know
+                .replace(/^\\(un)?restrict .*$/gm, '')
+                .replace(/^SET transaction_timeout = 0;$/gm, '');
+
+            const extensionSql = extensions.map(extension =>
+                `CREATE SCHEMA IF NOT EXISTS ${quoteIdent(extension.schema)};\nCREATE EXTENSION IF NOT EXISTS ${quoteIdent(extension.name)} WITH SCHEMA ${quoteIdent(extension.schema)};\n`).join('');
+
+            // pg_dump changes session settings (search_path among them); put them back for the migrations that follow
+            return `${extensionSql}${dump.trim()}\n\nRESET ALL;\n`;
+        } finally {
+            await shadowClient.close();
+        }
+    } finally {
+        await shadow.stop();
+    }
+};
+
+const squash = async (options: any) => {
+    try {
+        const layout = loadMigrationLayout();
+        const { dir: migrationDir, migrations } = layout;
+        if (!layout.exists || migrations.length === 0) {
+            console.error(chalk.red(`No migrations found in ${migrationDir}.`));
+            process.exitCode = 1;
+            return;
+        }
+        printLayoutWarnings(layout);
+
+        const target = migrations.find(file => file.includes(options.to));
+        if (!target) {
+            console.error(chalk.red(`Target migration ${options.to} not found in ${migrationDir}.`));
+            process.exitCode = 1;
+            return;
+        }
+        const squashed = migrations.slice(0, migrations.indexOf(target) + 1);
+        const lastVersion = target.replace('.sql', '');
+
+        // The baseline takes the version prefix of the last file it replaces, so it sorts before every later migration
+        const baselineFile = newMigrationFileName(options.name, /^\d+(T\d+)?/.exec(target)![0]);
+        if (!baselineFile) {
+            console.error(chalk.red(`✗ "${options.name}" has no letters or digits to build a file name from.`));
+            process.exitCode = 1;
+            return;
+        }
+        const laterFile = migrations.slice(squashed.length).find(file => file <= baselineFile);
+        if (laterFile) {
+            console.error(chalk.red(`✗ ${baselineFile} would not sort before ${laterFile}, which it doesn't replace. Pick another --name.`));
+            process.exitCode = 1;
             return;
         }
+        const baselineVersion = baselineFile.replace('.sql', '');
+        const archiveDir = `${loadProjectConfig().archiveDir}/${baselineVersion}`;
 
-        // Get applied migrations
-        let appliedMigrations = new Set<string>();
+        const connection = resolveConnection(options, 'squash');
+        if (!connection) {
+            process.exitCode = 1;
+            return;
+        }
+        const client = createDatabaseClient(connection, options.executor);
         try {
-            const appliedMigrationsResult = await $`docker run --rm -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -t -c "SELECT version FROM schema_migrations;"`;
-            appliedMigrations = new Set(
-                appliedMigrationsResult.stdout.toString()
-                    .split('\n')
-                    .map(line => line.trim())
-                    .filter(line => line.length > 0)
-            );
-        } catch (error) {
-            console.log(chalk.yellow('Could not fetch applied migrations, assuming fresh database...'));
+            // The baseline is recorded as applied here, so this database has to have everything it replaces
+            const [tracking] = await client.query<{ exists: boolean }>(`SELECT to_regclass(${quoteLiteral(trackingTableName())}) IS NOT NULL AS exists`);
+            const applied = tracking?.exists ? await fetchAppliedMigrations(client) : new Map<string, AppliedMigration>();
+            if (applied.size > 0 && !applied.has(lastVersion)) {
+                console.error(chalk.red(`✗ ${connection.database} has not applied ${target}. Migrate it up to ${options.to} first, so the baseline can be recorded as applied.`));
+                process.exitCode = 1;
+                return;
+            }
+            const changed = detectMigrationDrift(migrationDir, squashed, applied).filter(item => item.kind === 'changed');
+            if (changed.length > 0) {
+                printMigrationDrift(changed);
+                console.error(chalk.red('\nRefusing to squash files that no longer match what was applied; the baseline would not match the database.'));
+                process.exitCode = 1;
+                return;
+            }
+
+            console.log(chalk.blue(`Squashing ${squashed.length} migration${squashed.length === 1 ? '' : 's'} (${squashed[0]} to ${target}) into ${baselineFile}...`));
+            const up = await buildBaseline(layout, squashed, options);
+            if (up === null) {
+                console.error(chalk.red('\nThe migrations do not apply to an empty database, so nothing was squashed.'));
+                process.exitCode = 1;
+                return;
+            }
+
+            const content = `-- Baseline: ${squashed.length} migration${squashed.length === 1 ? '' : 's'} up to and including ${lastVersion}, squashed at ${new Date().toISOString()}
+-- The original files are in ${archiveDir}/
+-- Databases that already have ${lastVersion} record this file as applied instead of running it
+-- migrate:baseline ${lastVersion}
+
+-- migrate:up
+${up}`;
+
+            // Replaced files, their .down.sql siblings, and schema-pre.sql, which only ran before the first migration
+            const archived = [
+                ...(layout.schemaPre ? [path.basename(layout.schemaPre)] : []),
+                ...squashed.flatMap(file => [file, file.replace(/\.sql$/, '.down.sql')])
+            ].filter(file => fs.existsSync(`${migrationDir}/${file}`));
+
+            if (options.dryRun) {
+                console.log(content);
+                console.log(chalk.blue(`Would write ${migrationDir}/${baselineFile} and move ${archived.length} file${archived.length === 1 ? '' : 's'} to ${archiveDir}/`));
+                console.log(chalk.yellow('Dry run: nothing was written, archived or recorded.'));
+                return;
+            }
+
+            fs.writeFileSync(`${migrationDir}/${baselineFile}`, content);
+            console.log(chalk.green(`✓ Wrote ${migrationDir}/${baselineFile}`));
+
+            fs.ensureDirSync(archiveDir);
+            for (const file of archived) {
+                fs.moveSync(`${migrationDir}/${file}`, `${archiveDir}/${file}`);
+            }
+            console.log(chalk.green(`✓ Moved ${archived.length} file${archived.length === 1 ? '' : 's'} to ${archiveDir}/`));
+
+            if (applied.size === 0) {
+                console.log(chalk.blue(`${connection.database} has no migrations applied, so migrate will apply the baseline there.`));
+                return;
+            }
+            const { checksum, size } = computeMigrationChecksum(`${migrationDir}/${baselineFile}`);
+            try {
+                await client.execute(recordMigrationSql(baselineVersion, checksum, size));
+            } catch (error) {
+                console.error(chalk.red(`✗ Could not record the baseline in ${connection.database}; the next migrate will record it instead:`), error);
+                process.exitCode = 1;
+                return;
+            }
+            console.log(chalk.green(`✓ Recorded ${baselineVersion} as applied in ${connection.database}`));
+            console.log(chalk.blue('Other databases that have the squashed migrations record the baseline on their next migrate.'));
+        } finally {
+            await client.close();
+        }
+    } catch (error) {
+        console.error(chalk.red('Error squashing migrations:'), error);
+        process.exitCode = 1;
+    }
+};
+
+// Show migration status
+const showMigrationStatus = async (options: any) => {
+    try {
+        const connection = resolveConnection(options, 'status');
+        if (!connection) {
+            return;
         }
+        const { host, port, user, database } = connection;
 
-        // If target is specified, find its index
-        let targetIndex = migrationFiles.length - 1;
-        if (option.target) {
-            const targetFile = migrationFiles.find(file => file.includes(option.target));
-            if (!targetFile) {
-                console.error(chalk.red(`Target migration ${option.target} not found in ${migrationDir}.`));
+        const client = createDatabaseClient(connection, options.executor);
+        try {
+            // Validate connection first
+            if (!(await validateDatabaseConnection(client))) {
+                return;
+            }
+
+            const layout = loadMigrationLayout();
+            const { dir: migrationDir, migrations: migrationFiles } = layout;
+            if (!layout.exists) {
+                console.log(chalk.yellow('No migrations directory found.'));
+                return;
+            }
+            printLayoutWarnings(layout);
+
+            // Get applied migrations
+            let appliedMigrations = new Map<string, AppliedMigration>();
+            let appliedRepeatables = new Map<string, AppliedMigration>();
+            try {
+                ({ versioned: appliedMigrations, repeatable: appliedRepeatables } = await fetchTrackingRows(client));
+            } catch (error) {
+                console.log(chalk.yellow(`Could not fetch applied migrations (${trackingTableName()} may not exist).`));
+            }
+
+            console.log(chalk.blue(`\nMigration Status for ${database}@${host}:${port}\n`));
+
+            if (migrationFiles.length === 0 && appliedMigrations.size === 0 && layout.repeatable.length === 0) {
+                console.log(chalk.yellow('No migration files found.'));
                 return;
             }
-            targetIndex = migrationFiles.indexOf(targetFile);
+
+            const drift = detectMigrationDrift(migrationDir, migrationFiles, appliedMigrations);
+            const driftByVersion = new Map(drift.map(item => [item.version, item]));
+
+            migrationFiles.forEach(file => {
+                const version = file.replace('.sql', '');
+                const record = appliedMigrations.get(version);
+                const driftItem = driftByVersion.get(version);
+                let status: string;
+                if (driftItem?.kind === 'changed') {
+                    status = chalk.red('✗ Changed');
+                } else if (driftItem?.kind === 'unknown') {
+                    status = chalk.red('✗ Unknown');
+                } else if (record) {
+                    status = record.checksum ? chalk.green('✓ Applied') : chalk.green('✓ Applied (unverified)');
+                } else if (appliedMigrations.size > 0 && appliedMigrations.has(baselineOf(migrationDir, file) ?? '')) {
+                    status = chalk.yellow('⚬ Pending (baseline, recorded without running)');
+                } else {
+                    status = chalk.yellow('⚬ Pending');
+                }
+                console.log(`${status}  ${file}`);
+            });
+
+            drift.filter(item => item.kind === 'missing').forEach(item => {
+                console.log(`${chalk.red('✗ Missing')}  ${item.version}.sql`);
+            });
+
+            const appliedOnDisk = migrationFiles.filter(file => appliedMigrations.has(file.replace('.sql', ''))).length;
+            const pendingCount = migrationFiles.length - appliedOnDisk;
+            console.log(chalk.blue(`\nTotal: ${migrationFiles.length} migrations, ${appliedOnDisk} applied, ${pendingCount} pending\n`));
+
+            if (layout.repeatable.length > 0) {
+                const changed = new Set(changedRepeatables(layout, appliedRepeatables).map(migration => migration.file));
+                console.log(chalk.blue('Repeatable migrations (applied after the versioned ones when they change):'));
+                for (const file of layout.repeatable) {
+                    const status = !appliedRepeatables.has(file)
+                        ? chalk.yellow('⚬ Pending')
+                        : changed.has(file) ? chalk.yellow('⚬ Changed') : chalk.green('✓ Applied');
+                    console.log(`${status}  ${file}`);
+                }
+                console.log('');
+            }
+
+            if (drift.length > 0) {
+                printMigrationDrift(drift);
+                console.log(chalk.yellow('\n`migrate` will refuse to run until the drift is resolved (or --allow-drift is passed).\n'));
+                process.exitCode = 1;
+            }
+        } finally {
+            await client.close();
         }
+    } catch (error) {
+        console.error(chalk.red('Error checking migration status:'), error);
+    }
+};
+
+// === ENVIRONMENT COMPARISON ===
+
+// --from and --to take an environment name from the project config, or a connection URL
+const environmentOptions = (value: string) => value.includes('://') ? { url: value } : { env: value };
 
-        // Check if pre-data.sql and post-data.sql exist
-        const preDataPath = `${absoluteMigrationDir}/pre-data.sql`;
-        const postDataPath = `${absoluteMigrationDir}/post-data.sql`;
-        const hasPreData = fs.existsSync(preDataPath);
-        const hasPostData = fs.existsSync(postDataPath);
+const readAppliedMigrations = async (connection: ConnectionSettings, executor: string) => {
+    const client = createDatabaseClient(connection, executor);
+    try {
+        const [tracking] = await client.query<{ exists: boolean }>(`SELECT to_regclass(${quoteLiteral(trackingTableName())}) IS NOT NULL AS exists`);
+        return tracking?.exists
+            ? await fetchTrackingRows(client)
+            : { versioned: new Map<string, AppliedMigration>(), repeatable: new Map<string, AppliedMigration>() };
+    } finally {
+        await client.close();
+    }
+};
 
-        // Apply pre-data if it exists and no migrations have been applied yet
-        if (hasPreData && appliedMigrations.size === 0) {
-            console.log(chalk.blue('Applying pre-data.sql...'));
-            await $`docker run --rm -v ${absoluteMigrationDir}:/sql -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -f /sql/schema-pre.sql`;
+// Show which migrations two databases have applied side by side, and with --promote apply to the target
+// exactly the versions the source has
+const compareEnvironments = async (options: any) => {
+    try {
+        const source = resolveConnection(environmentOptions(options.from), 'compare');
+        const target = source && resolveConnection(environmentOptions(options.to), 'compare');
+        if (!source || !target) {
+            process.exitCode = 1;
+            return;
         }
 
-        // Apply individual migrations up to target
-        for (let i = 0; i <= targetIndex; i++) {
-            const migrationFile = migrationFiles[i];
-            if (!migrationFile) continue;
-
-            const version = migrationFile.replace('.sql', '');
+        // A URL may carry a password, so it is shown as database@host
+        const label = (value: string, connection: ConnectionSettings) => value.includes('://') ? `${connection.database}@${connection.host}` : value;
+        const fromLabel = label(options.from, source);
+        const toLabel = label(options.to, target);
+
+        const layout = loadMigrationLayout();
+        const { versioned: sourceApplied, repeatable: sourceRepeatables } = await readAppliedMigrations(source, options.executor);
+        const { versioned: targetApplied, repeatable: targetRepeatables } = await readAppliedMigrations(target, options.executor);
+        const onDisk = new Map(layout.migrations.map(file => [file.replace('.sql', ''), computeMigrationChecksum(`${layout.dir}/${file}`).checksum]));
+        const squashedThrough = layout.migrations.map(file => baselineOf(layout.dir, file)).filter(version => version !== null).sort().pop();
+
+        const versions = [...new Set([...sourceApplied.keys(), ...targetApplied.keys(), ...onDisk.keys()])].sort();
+        const describe = (record: AppliedMigration | undefined) =>
+            record ? `${record.appliedAt?.replace('T', ' ').slice(0, 19) ?? 'unknown time'}  ${record.checksum?.slice(0, 12) ?? 'no checksum '}` : '-';
+        const diskState = (version: string) => onDisk.has(version) ? 'on disk' : squashedThrough && version <= squashedThrough ? 'squashed' : 'not on disk';
+
+        const rows = versions.map(version => {
+            const from = sourceApplied.get(version);
+            const to = targetApplied.get(version);
+            let state: string;
+            if (from && to) {
+                state = from.checksum && to.checksum && from.checksum !== to.checksum ? 'checksum differs' : 'same';
+            } else if (from) {
+                state = `only in ${fromLabel}`;
+            } else if (to) {
+                state = `only in ${toLabel}`;
+            } else {
+                state = 'pending in both';
+            }
+            return { version, state, from: describe(from), to: describe(to), disk: diskState(version) };
+        });
 
-            if (!appliedMigrations.has(version)) {
-                console.log(chalk.blue(`Applying migration: ${migrationFile}`));
-                try {
-                    await $`docker run --rm -v ${absoluteMigrationDir}:/sql -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -f /sql/${migrationFile}`;
+        console.log(chalk.blue(`\nMigrations applied on ${fromLabel} (${source.database}@${source.host}) and ${toLabel} (${target.database}@${target.host})\n`));
+        const width = (values: string[], header: string) => Math.max(header.length, ...values.map(value => value.length));
+        const widths = {
+            version: width(rows.map(row => row.version), 'VERSION'),
+            from: width(rows.map(row => row.from), fromLabel.toUpperCase()),
+            to: width(rows.map(row => row.to), toLabel.toUpperCase()),
+            state: width(rows.map(row => row.state), 'STATUS')
+        };
+        console.log(chalk.blue(`${'VERSION'.padEnd(widths.version)}  ${fromLabel.toUpperCase().padEnd(widths.from)}  ${toLabel.toUpperCase().padEnd(widths.to)}  ${'STATUS'.padEnd(widths.state)}  FILE`));
+        for (const row of rows) {
+            const color = row.state === 'same' ? chalk.green : row.state === 'pending in both' ? chalk.blue : row.state === 'checksum differs' ? chalk.red : chalk.yellow;
+            console.log(color(`${row.version.padEnd(widths.version)}  ${row.from.padEnd(widths.from)}  ${row.to.padEnd(widths.to)}  ${row.state.padEnd(widths.state)}  ${row.disk}`));
+        }
 
-                    // Mark as applied
-                    await $`docker run --rm -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -c "INSERT INTO schema_migrations (version) VALUES ('${version}');"`;
-                    console.log(chalk.green(`✓ Applied migration: ${migrationFile}`));
-                } catch (error) {
-                    console.error(chalk.red(`✗ Failed to apply migration: ${migrationFile}`), error);
-                    return;
-                }
-            } else {
-                console.log(chalk.yellow(`⚬ Skipping already applied migration: ${migrationFile}`));
+        const onlyInSource = versions.filter(version => sourceApplied.has(version) && !targetApplied.has(version));
+        const onlyInTarget = versions.filter(version => targetApplied.has(version) && !sourceApplied.has(version));
+        const differing = rows.filter(row => row.state === 'checksum differs').map(row => row.version);
+        console.log(chalk.blue(`\n${onlyInSource.length} only in ${fromLabel}, ${onlyInTarget.length} only in ${toLabel}, ${differing.length} with different checksums`));
+
+        // Repeatable migrations are compared by the hash each database last ran
+        const repeatableFiles = [...new Set([...sourceRepeatables.keys(), ...targetRepeatables.keys(), ...layout.repeatable])].sort();
+        const diskChecksum = (file: string) => layout.repeatable.includes(file) ? computeMigrationChecksum(`${layout.dir}/${file}`).checksum : null;
+        const repeatablesToPromote = repeatableFiles.filter(file => sourceRepeatables.has(file) && sourceRepeatables.get(file)!.checksum !== targetRepeatables.get(file)?.checksum);
+        if (repeatableFiles.length > 0) {
+            console.log(chalk.blue(`\nRepeatable migrations:`));
+            for (const file of repeatableFiles) {
+                const from = sourceRepeatables.get(file);
+                const to = targetRepeatables.get(file);
+                const state = !from && !to ? 'applied on neither'
+                    : !to ? `only in ${fromLabel}`
+                    : !from ? `only in ${toLabel}`
+                    : from.checksum === to.checksum ? 'same' : 'different versions';
+                const checksum = diskChecksum(file);
+                const disk = checksum === null ? 'not on disk' : !from ? 'on disk' : checksum === from.checksum ? `file matches ${fromLabel}` : `file changed since ${fromLabel} ran it`;
+                console.log((state === 'same' ? chalk.green : chalk.yellow)(`${file}  ${fromLabel}: ${describe(from)}  ${toLabel}: ${describe(to)}  ${state}, ${disk}`));
             }
         }
 
-        // Apply post-data if it exists (always run this as it contains constraints, indexes, etc.)
-        if (hasPostData) {
-            console.log(chalk.blue('Applying post-data.sql...'));
-            await $`docker run --rm -v ${absoluteMigrationDir}:/sql -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -f /sql/schema-post.sql`;
+        if (!options.promote) {
+            if (onlyInSource.length + onlyInTarget.length + differing.length + repeatablesToPromote.length > 0) {
+                process.exitCode = 1;
+            }
+            return;
         }
 
-        // If data.sql exists, apply it
-        const dataPath = `${absoluteMigrationDir}/data.sql`;
-        if (fs.existsSync(dataPath)) {
-            console.log(chalk.blue('Applying data.sql...'));
-            await $`docker run --rm -v ${absoluteMigrationDir}:/sql -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -f /sql/data.sql`;
+        // A squashed version reaches the target only through a baseline that covers it and is promoted with it
+        const promotedBaselines = layout.migrations
+            .filter(file => onlyInSource.includes(file.replace('.sql', '')))
+            .map(file => baselineOf(layout.dir, file))
+            .filter(version => version !== null);
+        const coveredByPromotedBaseline = (version: string) => promotedBaselines.some(through => version <= through);
+
+        // Promotion only copies what the source ran, so every version it has must be on disk as it was applied
+        const problems = [
+            ...onlyInSource.filter(version => diskState(version) === 'not on disk')
+                .map(version => `${version} is applied on ${fromLabel} but not on disk`),
+            ...onlyInSource.filter(version => diskState(version) === 'squashed' && !coveredByPromotedBaseline(version))
+                .map(version => `${version} is applied on ${fromLabel} but was squashed, and no baseline covering it is being promoted from ${fromLabel}`),
+            ...onlyInSource.filter(version => onDisk.has(version) && sourceApplied.get(version)!.checksum && sourceApplied.get(version)!.checksum !== onDisk.get(version))
+                .map(version => `${version} was edited after it was applied on ${fromLabel}`),
+            ...onlyInTarget.map(version => `${version} is applied on ${toLabel} but not on ${fromLabel}`),
+            ...differing.map(version => `${version} was applied with different content on ${fromLabel} and ${toLabel}`),
+            ...repeatablesToPromote.filter(file => diskChecksum(file) !== sourceRepeatables.get(file)!.checksum)
+                .map(file => `${file} on disk is not the version ${fromLabel} last ran`)
+        ];
+        if (problems.length > 0) {
+            problems.forEach(problem => console.error(chalk.red(`✗ ${problem}`)));
+            console.error(chalk.red(`\nRefusing to promote: ${toLabel} can't be brought to exactly what ${fromLabel} has.`));
+            process.exitCode = 1;
+            return;
         }
 
-        console.log(chalk.green('Migration completed successfully.'));
-    } catch (error) {
-        console.error(chalk.red('Error during migration:'), error);
-    }
-}
+        if (onlyInSource.length + repeatablesToPromote.length === 0) {
+            console.log(chalk.green(`✓ ${toLabel} already has every migration applied on ${fromLabel}`));
+            return;
+        }
 
-// Utility function to validate database connection
-const validateDatabaseConnection = async (host: string, port: string, user: string, database: string, password: string): Promise<boolean> => {
-    try {
-        console.log(chalk.blue('Testing database connection...'));
-        await $`docker run --rm -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -c "SELECT 1;"`;
-        console.log(chalk.green('✓ Database connection successful'));
-        return true;
+        console.log(chalk.blue(`\nPromoting ${onlyInSource.length} migration${onlyInSource.length === 1 ? '' : 's'} and ${repeatablesToPromote.length} repeatable migration${repeatablesToPromote.length === 1 ? '' : 's'} from ${fromLabel} to ${toLabel}...`));
+        await migrate({
+            ...environmentOptions(options.to),
+            executor: options.executor,
+            lockTimeout: options.lockTimeout,
+            dryRun: options.dryRun,
+            validate: options.validate,
+            schema: [],
+            versions: onlyInSource,
+            repeatables: repeatablesToPromote
+        });
     } catch (error) {
-        console.error(chalk.red('✗ Database connection failed:'), error);
-        return false;
+        console.error(chalk.red('Error comparing environments:'), error);
+        process.exitCode = 1;
     }
 };
 
-// Create a new migration file
-const createMigration = (name: string) => {
-    try {
-        const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
-        const filename = `${timestamp}_${name.replace(/\s+/g, '_').toLowerCase()}.sql`;
-        const migrationDir = 'supabase-project/migrations';
-
-        fs.ensureDirSync(migrationDir);
+// === SEEDS ===
+// Seed data lives in named sets, one folder each under seedsDir (seeds/dev, seeds/test, seeds/prod). `seed`
+// runs a set's .sql, .csv and .json files in path order and records the set, so running it again doesn't add
+// its rows twice. A CSV or JSON file fills the table its name gives, after an optional order prefix:
+// 01_public.users.csv loads "public"."users". All sets of one run go in a single transaction.
 
-        const migrationPath = `${migrationDir}/${filename}`;
-        const template = `-- Migration: ${name}
--- Created at: ${new Date().toISOString()}
--- 
--- Add your SQL statements here
--- Remember to make your migrations reversible when possible
+const SEED_FILE_PATTERN = /\.(sql|csv|json)$/i;
+const SEED_INSERT_BATCH_SIZE = 500;
 
--- Example:
--- CREATE TABLE IF NOT EXISTS example_table (
---     id SERIAL PRIMARY KEY,
---     name VARCHAR(255) NOT NULL,
---     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
--- );
+interface AppliedSeedSet {
+    appliedAt: string;
+    appliedBy: string | null;
+    checksum: string;
+}
 
+const seedTrackingTableSql = () => `
+    CREATE SCHEMA IF NOT EXISTS ${quoteIdent(loadProjectConfig().trackingTable.schema)};
+    CREATE TABLE IF NOT EXISTS ${seedTrackingTableName()} (
+        id BIGSERIAL PRIMARY KEY,
+        seed_set TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        applied_by TEXT,
+        checksum VARCHAR(64) NOT NULL,
+        files JSONB NOT NULL,
+        reset_tables TEXT[] NOT NULL DEFAULT '{}',
+        tool_version VARCHAR(32)
+    );
 `;
 
-        fs.writeFileSync(migrationPath, template);
-        console.log(chalk.green(`✓ Created migration file: ${migrationPath}`));
-        console.log(chalk.blue('Edit the file to add your SQL statements, then run the migrate command.'));
-    } catch (error) {
-        console.error(chalk.red('Error creating migration:'), error);
+// The columns of a seed history row that fetchAppliedSeedSets reads, as to_jsonb returns them
+interface SeedRow {
+    seed_set: string;
+    applied_at: string;
+    applied_by: string | null;
+    checksum: string;
+}
+
+// The latest run of each seed set
+const fetchAppliedSeedSets = async (client: DatabaseClient) => {
+    const applied = new Map<string, AppliedSeedSet>();
+    const [tracking] = await client.query<{ exists: boolean }>(`SELECT to_regclass(${quoteLiteral(seedTrackingTableName())}) IS NOT NULL AS exists`);
+    if (!tracking?.exists) {
+        return applied;
     }
+    const rows = await client.query<{ seed: SeedRow | string }>(`SELECT DISTINCT ON (seed_set) to_jsonb(s) AS seed FROM ${seedTrackingTableName()} s ORDER BY seed_set, id DESC`);
+    for (const { seed } of rows) {
+        const row: SeedRow = typeof seed === 'string' ? JSON.parse(seed) : seed;
+        applied.set(row.seed_set, { appliedAt: row.applied_at, appliedBy: row.applied_by ?? null, checksum: row.checksum });
+    }
+    return applied;
 };
 
-// Show migration status
-const showMigrationStatus = async (options: any) => {
-    try {
-        let usingEnv: boolean;
-        let usingOptions: boolean;
+const listSeedSets = (seedsDir: string) => fs.existsSync(seedsDir)
+    ? fs.readdirSync(seedsDir).filter(entry => !entry.startsWith('.') && fs.statSync(`${seedsDir}/${entry}`).isDirectory()).sort()
+    : [];
+
+// A set's seed files relative to its folder, in the order they run, and whatever else is in the folder
+const loadSeedSet = (setDir: string) => {
+    const files: string[] = [];
+    const warnings: string[] = [];
+    const walk = (prefix: string) => {
+        for (const entry of fs.readdirSync(prefix ? `${setDir}/${prefix}` : setDir).sort()) {
+            const relative = prefix ? `${prefix}/${entry}` : entry;
+            if (entry.startsWith('.')) continue;
+            if (fs.statSync(`${setDir}/${relative}`).isDirectory()) {
+                walk(relative);
+            } else if (SEED_FILE_PATTERN.test(entry)) {
+                files.push(relative);
+            } else {
+                warnings.push(`${relative} is not a .sql, .csv or .json file and is ignored`);
+            }
+        }
+    };
+    walk('');
+    return { files, warnings };
+};
 
-        if (!options.host && !options.port && !options.user && !options.database) {
-            usingEnv = true;
-            usingOptions = false;
+// One hash for the whole set, so an added, removed or edited file counts as a change
+const seedSetChecksum = (setDir: string, files: string[]) => crypto.createHash('sha256')
+    .update(files.map(file => `${file}:${computeMigrationChecksum(`${setDir}/${file}`).checksum}`).join('\n'))
+    .digest('hex');
+
+// Table a CSV or JSON seed file loads, from its name without the order prefix
+const seedTable = (file: string) => path.basename(file)
+    .replace(/\.(csv|json)$/i, '')
+    .replace(/^\d+[_-]/, '')
+    .split('.')
+    .map(quoteIdent)
+    .join('.');
+
+// RFC 4180 CSV. An unquoted empty field is NULL and "" is an empty string, the same as COPY's csv format.
+const parseCsv = (text: string) => {
+    const rows: (string | null)[][] = [];
+    let row: (string | null)[] = [];
+    let field = '';
+    let quoted = false;
+    let i = 0;
+
+    const endField = () => {
+        row.push(field === '' && !quoted ? null : field);
+        field = '';
+        quoted = false;
+    };
+
+    while (i < text.length) {
+        const char = text[i]!;
+        if (char === '"' && field === '' && !quoted) {
+            quoted = true;
+            i++;
+            while (i < text.length) {
+                if (text[i] === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i += 2;
+                } else if (text[i] === '"') {
+                    i++;
+                    break;
+                } else {
+                    field += text[i++];
+                }
+            }
+        } else if (char === ',') {
+            endField();
+            i++;
+        } else if (char === '\n' || char === '\r') {
+            // Blank lines, such as one at the end of the file, are not rows
+            if (row.length > 0 || field !== '' || quoted) {
+                endField();
+                rows.push(row);
+                row = [];
+            }
+            i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
         } else {
-            usingEnv = false;
-            usingOptions = true;
+            field += char;
+            i++;
         }
+    }
+    if (field !== '' || quoted || row.length > 0) {
+        endField();
+        rows.push(row);
+    }
+    return rows;
+};
 
-        if (usingOptions && (!options.host || !options.port || !options.user || !options.database)) {
-            console.error(chalk.red('Please provide all required database connection options: host, port, user, database.'));
-            return;
-        }
+// Multi-row INSERTs, a batch at a time so a large file doesn't become one huge statement
+const seedInsertSql = (table: string, columns: string[], rows: string[][]) => {
+    const statements: string[] = [];
+    for (let start = 0; start < rows.length; start += SEED_INSERT_BATCH_SIZE) {
+        const values = rows.slice(start, start + SEED_INSERT_BATCH_SIZE).map(values => `    (${values.join(', ')})`);
+        statements.push(`INSERT INTO ${table} (${columns.map(quoteIdent).join(', ')}) VALUES\n${values.join(',\n')};`);
+    }
+    return statements.join('\n');
+};
 
-        if (usingEnv) {
-            const requiredEnvVars = ['POSTGRES_HOST', 'POSTGRES_PORT', 'POSTGRES_USER', 'POSTGRES_DB'];
-            for (const varName of requiredEnvVars) {
-                if (!process.env[varName]) {
-                    console.error(chalk.red(`Environment variable ${varName} is not set.`));
-                    return;
-                }
-            }
+// The SQL that loads one seed file. Scripts run by psql load CSV with COPY; the native executor runs one
+// statement at a time and can't stream COPY data, so it gets INSERTs instead.
+const seedFileSql = (filePath: string, copy: boolean): { sql: string; table: string | null; rows: number } => {
+    const content = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+    if (/\.sql$/i.test(filePath)) {
+        return { sql: content, table: null, rows: 0 };
+    }
+
+    const table = seedTable(filePath);
+    if (/\.csv$/i.test(filePath)) {
+        const [header, ...rows] = parseCsv(content);
+        if (!header || header.some(column => !column)) {
+            throw new Error(`${filePath}: the first line must name every column`);
+        }
+        const columns = header as string[];
+        const ragged = rows.findIndex(row => row.length !== columns.length);
+        if (ragged !== -1) {
+            throw new Error(`${filePath}: row ${ragged + 2} has ${rows[ragged]!.length} fields, the header has ${columns.length}`);
         }
+        const sql = copy
+            ? `COPY ${table} (${columns.map(quoteIdent).join(', ')}) FROM stdin WITH (FORMAT csv, HEADER true);\n${content.replace(/\r\n/g, '\n').replace(/\n*$/, '\n')}\\.`
+            : seedInsertSql(table, columns, rows.map(row => row.map(value => value === null ? 'NULL' : quoteLiteral(value))));
+        return { sql, table, rows: rows.length };
+    }
+
+    // JSON: an array of objects, one per row. A key a row leaves out gets the column default.
+    const rows = JSON.parse(content);
+    if (!Array.isArray(rows) || rows.some(row => row === null || typeof row !== 'object' || Array.isArray(row))) {
+        throw new Error(`${filePath}: must be an array of objects, one per row`);
+    }
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    const literal = (value: unknown) => value === null ? 'NULL'
+        : typeof value === 'object' ? quoteLiteral(JSON.stringify(value))
+        : quoteLiteral(String(value));
+    const values = rows.map(row => columns.map(column => column in row ? literal(row[column]) : 'DEFAULT'));
+    return { sql: seedInsertSql(table, columns, values), table, rows: rows.length };
+};
+
+const recordSeedSetSql = (name: string, checksum: string, files: { path: string; sha256: string }[], resetTables: string[]) => {
+    const appliedBy = process.env.USER || os.userInfo().username;
+    return `INSERT INTO ${seedTrackingTableName()} (seed_set, applied_by, checksum, files, reset_tables, tool_version) VALUES (${quoteLiteral(name)}, ${quoteLiteral(appliedBy)}, ${quoteLiteral(checksum)}, ${quoteLiteral(JSON.stringify(files))}::jsonb, ARRAY[${resetTables.map(quoteLiteral).join(', ')}]::text[], ${quoteLiteral(TOOL_VERSION)});`;
+};
 
-        const host = usingEnv ? process.env.POSTGRES_HOST : options.host;
-        const port = usingEnv ? process.env.POSTGRES_PORT : options.port;
-        const user = usingEnv ? process.env.POSTGRES_USER : options.user;
-        const database = usingEnv ? process.env.POSTGRES_DB : options.database;
-        const password = process.env.POSTGRES_PASSWORD;
+const describeSeedRun = (applied: AppliedSeedSet) => `${applied.appliedAt}${applied.appliedBy ? ` by ${applied.appliedBy}` : ''}`;
 
-        if (!password) {
-            console.error(chalk.red('Environment variable POSTGRES_PASSWORD is not set.'));
+interface SeedOptions extends ConnectionOptions {
+    executor: string;
+    reset: string[];
+    dryRun?: boolean;
+    emitSql?: string;
+}
+
+const seed = async (sets: string[], options: SeedOptions) => {
+    try {
+        const config = loadProjectConfig();
+        const available = listSeedSets(config.seedsDir);
+        const resetTables: string[] = options.reset;
+
+        const unknown = sets.filter(set => !available.includes(set));
+        if (unknown.length > 0) {
+            console.error(chalk.red(`✗ No seed set ${unknown.join(', ')} in ${config.seedsDir}. ${available.length > 0 ? `Available: ${available.join(', ')}` : `Create one folder per set, e.g. ${config.seedsDir}/dev`}`));
+            process.exitCode = 1;
             return;
         }
-
-        // Validate connection first
-        if (!(await validateDatabaseConnection(host!, port!, user!, database!, password))) {
+        if (sets.length === 0 && resetTables.length > 0) {
+            console.error(chalk.red('✗ --reset needs the seed sets to load after truncating, e.g. seed dev --reset public.users'));
+            process.exitCode = 1;
             return;
         }
 
-        const migrationDir = 'supabase-project/migrations';
-        if (!fs.existsSync(migrationDir)) {
-            console.log(chalk.yellow('No migrations directory found.'));
+        const connection = resolveConnection(options, 'seed');
+        if (!connection) {
             return;
         }
+        const { host, port, database } = connection;
 
-        // Get all migration files
-        const migrationFiles = fs.readdirSync(migrationDir)
-            .filter(file => file.endsWith('.sql') &&
-                    !['pre-data.sql', 'post-data.sql', 'data.sql'].includes(file))
-            .sort();
-
-        // Get applied migrations
-        let appliedMigrations = new Set<string>();
+        const client = createDatabaseClient(connection, options.executor);
         try {
-            const appliedMigrationsResult = await $`docker run --rm -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -t -c "SELECT version FROM schema_migrations;"`;
-            appliedMigrations = new Set(
-                appliedMigrationsResult.stdout.toString()
-                    .split('\n')
-                    .map(line => line.trim())
-                    .filter(line => line.length > 0)
-            );
-        } catch (error) {
-            console.log(chalk.yellow('Could not fetch applied migrations (schema_migrations table may not exist).'));
-        }
+            const applied = await fetchAppliedSeedSets(client);
+
+            // Without set names, show every set and whether this database has it
+            if (sets.length === 0) {
+                if (available.length === 0) {
+                    console.log(chalk.yellow(`No seed sets in ${config.seedsDir}. Create one folder per set, e.g. ${config.seedsDir}/dev`));
+                    return;
+                }
+                console.log(chalk.blue(`Seed sets in ${config.seedsDir} on ${database}@${host}:${port}:`));
+                for (const set of available) {
+                    const { files } = loadSeedSet(`${config.seedsDir}/${set}`);
+                    const run = applied.get(set);
+                    const summary = `${set} (${files.length} file${files.length === 1 ? '' : 's'})`;
+                    if (!run) {
+                        console.log(chalk.yellow(`  ⚬ ${summary}: not applied`));
+                    } else if (run.checksum !== seedSetChecksum(`${config.seedsDir}/${set}`, files)) {
+                        console.log(chalk.yellow(`  ⚠️  ${summary}: changed since it was applied at ${describeSeedRun(run)}`));
+                    } else {
+                        console.log(chalk.green(`  ✓ ${summary}: applied at ${describeSeedRun(run)}`));
+                    }
+                }
+                return;
+            }
 
-        console.log(chalk.blue(`\nMigration Status for ${database}@${host}:${port}\n`));
+            const copy = Boolean(options.emitSql) || client.executor === 'psql';
+            const steps: PlanStep[] = [{ label: `create the seed history table ${seedTrackingTableName()}`, sql: seedTrackingTableSql() }];
+            if (resetTables.length > 0) {
+                const tables = resetTables.map(table => table.split('.').map(quoteIdent).join('.'));
+                steps.push({ label: `truncate ${tables.join(', ')}`, sql: `TRUNCATE ${tables.join(', ')} RESTART IDENTITY;` });
+            }
 
-        if (migrationFiles.length === 0) {
-            console.log(chalk.yellow('No migration files found.'));
-            return;
-        }
+            const toRun: string[] = [];
+            for (const set of sets) {
+                const setDir = `${config.seedsDir}/${set}`;
+                const { files, warnings } = loadSeedSet(setDir);
+                warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${setDir}: ${warning}`)));
+                if (files.length === 0) {
+                    console.log(chalk.yellow(`⚠️  ${setDir} has no .sql, .csv or .json files; skipped`));
+                    continue;
+                }
 
-        migrationFiles.forEach(file => {
-            const version = file.replace('.sql', '');
-            const status = appliedMigrations.has(version) ?
-                chalk.green('✓ Applied') :
-                chalk.yellow('⚬ Pending');
-            console.log(`${status}  ${file}`);
-        });
+                // Loading a set twice adds its rows twice, so an applied set only runs again after a reset
+                const checksum = seedSetChecksum(setDir, files);
+                const run = applied.get(set);
+                if (run && resetTables.length === 0) {
+                    if (run.checksum === checksum) {
+                        console.log(chalk.green(`✓ ${set} was already applied at ${describeSeedRun(run)}; skipped`));
+                    } else {
+                        console.log(chalk.yellow(`⚠️  ${set} changed since it was applied at ${describeSeedRun(run)}. It was not run again, as that would add its rows twice; reload it with --reset <table> for the tables it fills.`));
+                    }
+                    continue;
+                }
+
+                for (const file of files) {
+                    const loaded = seedFileSql(`${setDir}/${file}`, copy);
+                    const detail = loaded.table ? ` → ${loaded.table} (${loaded.rows} row${loaded.rows === 1 ? '' : 's'}, ${copy && /\.csv$/i.test(file) ? 'COPY' : 'INSERT'})` : '';
+                    steps.push({ label: `${setDir}/${file}${detail}`, sql: loaded.sql });
+                }
+                const hashes = files.map(file => ({ path: file, sha256: computeMigrationChecksum(`${setDir}/${file}`).checksum }));
+                steps.push({ label: `record ${set} as applied`, sql: recordSeedSetSql(set, checksum, hashes, resetTables) });
+                toRun.push(set);
+            }
+
+            if (toRun.length === 0) {
+                return;
+            }
 
-        const pendingCount = migrationFiles.length - appliedMigrations.size;
-        console.log(chalk.blue(`\nTotal: ${migrationFiles.length} migrations, ${appliedMigrations.size} applied, ${pendingCount} pending\n`));
+            if (options.dryRun || options.emitSql) {
+                printPlan(`seed would run, in one transaction against ${database}@${host}:${port}:`, steps);
+                if (options.emitSql) {
+                    writePlanScript(options.emitSql, 'seed', connection, transactionScript(planScript(steps)));
+                }
+                console.log(chalk.yellow('Dry run: nothing was seeded.'));
+                return;
+            }
 
+            console.log(chalk.blue(`Seeding ${database}@${host}:${port} with ${toRun.join(', ')}...`));
+            try {
+                await client.execute(transactionScript(...steps.map(step => step.sql)));
+            } catch (error) {
+                console.error(chalk.red(`✗ Seeding failed; nothing was changed.`), error);
+                process.exitCode = 1;
+                return;
+            }
+            console.log(chalk.green(`✓ Seeded ${toRun.join(', ')}${resetTables.length > 0 ? ` after truncating ${resetTables.join(', ')}` : ''}`));
+        } finally {
+            await client.close();
+        }
     } catch (error) {
-        console.error(chalk.red('Error checking migration status:'), error);
+        console.error(chalk.red('Error during seeding:'), error);
+        process.exitCode = 1;
     }
 };
 
 // Test database connection
 const testConnection = async (options: any) => {
     try {
-        let usingEnv: boolean;
-        let usingOptions: boolean;
-
-        if (!options.host && !options.port && !options.user && !options.database) {
-            usingEnv = true;
-            usingOptions = false;
-        } else {
-            usingEnv = false;
-            usingOptions = true;
-        }
-
-        if (usingOptions && (!options.host || !options.port || !options.user || !options.database)) {
-            console.error(chalk.red('Please provide all required database connection options: host, port, user, database.'));
+        const connection = resolveConnection(options, 'test-connection');
+        if (!connection) {
             return;
         }
+        const { host, port, user, database } = connection;
 
-        if (usingEnv) {
-            const requiredEnvVars = ['POSTGRES_HOST', 'POSTGRES_PORT', 'POSTGRES_USER', 'POSTGRES_DB'];
-            for (const varName of requiredEnvVars) {
-                if (!process.env[varName]) {
-                    console.error(chalk.red(`Environment variable ${varName} is not set.`));
-                    return;
-                }
-            }
-        }
-
-        const host = usingEnv ? process.env.POSTGRES_HOST : options.host;
-        const port = usingEnv ? process.env.POSTGRES_PORT : options.port;
-        const user = usingEnv ? process.env.POSTGRES_USER : options.user;
-        const database = usingEnv ? process.env.POSTGRES_DB : options.database;
-        const password = process.env.POSTGRES_PASSWORD;
-
-        if (!password) {
-            console.error(chalk.red('Environment variable POSTGRES_PASSWORD is not set.'));
-            return;
+        const client = createDatabaseClient(connection, options.executor);
+        try {
+            await validateDatabaseConnection(client);
+        } finally {
+            await client.close();
         }
 
-        await validateDatabaseConnection(host!, port!, user!, database!, password);
-
     } catch (error) {
         console.error(chalk.red('Error testing connection:'), error);
     }
@@ -715,7 +5192,7 @@ const startLocal = async (options: any) => {
     try {
         console.log(chalk.blue('Starting Supabase locally...'));
 
-        const projectDir = 'supabase-project';
+        const projectDir = loadProjectConfig().projectDir;
         if (!fs.existsSync(projectDir)) {
             console.error(chalk.red(`Project directory ${projectDir} does not exist. Run 'init' command first.`));
             return;
@@ -726,14 +5203,13 @@ const startLocal = async (options: any) => {
             return;
         }
 
-        process.chdir(projectDir);
-
+        // Run compose from the project directory, which may be nested (e.g. in a monorepo)
         if (options.detach) {
             console.log(chalk.blue('Starting in detached mode...'));
-            await $`docker-compose up -d`;
+            await $`docker-compose up -d`.cwd(projectDir);
         } else {
             console.log(chalk.blue('Starting in foreground mode (press Ctrl+C to stop)...'));
-            await $`docker-compose up`;
+            await $`docker-compose up`.cwd(projectDir);
         }
 
         console.log(chalk.green('Supabase started successfully!'));
@@ -741,8 +5217,6 @@ const startLocal = async (options: any) => {
 
     } catch (error) {
         console.error(chalk.red('Error starting Supabase:'), error);
-    } finally {
-        process.chdir('..');
     }
 };
 
@@ -751,187 +5225,342 @@ const stopLocal = async () => {
     try {
         console.log(chalk.blue('Stopping Supabase...'));
 
-        const projectDir = 'supabase-project';
+        const projectDir = loadProjectConfig().projectDir;
         if (!fs.existsSync(projectDir)) {
             console.error(chalk.red(`Project directory ${projectDir} does not exist.`));
             return;
         }
 
-        process.chdir(projectDir);
-        await $`docker-compose down`;
+        await $`docker-compose down`.cwd(projectDir);
         console.log(chalk.green('Supabase stopped successfully!'));
 
     } catch (error) {
         console.error(chalk.red('Error stopping Supabase:'), error);
-    } finally {
-        process.chdir('..');
     }
 };
 
+// What clean drops, in order: tables, sequences, views, functions and types in public (CASCADE takes their
+// dependents too), then the migrations, deploy and seed tracking tables. Extension objects are left to
+// their extension, and sequences owned by a column go with their table.
+const cleanupPlan = async (client: DatabaseClient): Promise<PlanStep[]> => {
+    const objects = await client.query<{ kind: string; name: string; statement: string }>(`
+        SELECT o.kind, o.name, o.statement FROM (
+            SELECT 1 AS step, 'pg_class'::regclass AS classid, c.oid, c.relnamespace AS namespace, 'table' AS kind, 'public.' || quote_ident(c.relname) AS name,
+                   'DROP TABLE IF EXISTS public.' || quote_ident(c.relname) || ' CASCADE' AS statement
+            FROM pg_class c WHERE c.relkind IN ('r', 'p') AND NOT c.relispartition
+            UNION ALL
+            SELECT 2, 'pg_class'::regclass, c.oid, c.relnamespace, 'sequence', 'public.' || quote_ident(c.relname),
+                   'DROP SEQUENCE IF EXISTS public.' || quote_ident(c.relname) || ' CASCADE'
+            FROM pg_class c WHERE c.relkind = 'S'
+              AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype IN ('a', 'i'))
+            UNION ALL
+            SELECT 3, 'pg_class'::regclass, c.oid, c.relnamespace, CASE c.relkind WHEN 'm' THEN 'materialized view' ELSE 'view' END, 'public.' || quote_ident(c.relname),
+                   'DROP ' || CASE c.relkind WHEN 'm' THEN 'MATERIALIZED VIEW' ELSE 'VIEW' END || ' IF EXISTS public.' || quote_ident(c.relname) || ' CASCADE'
+            FROM pg_class c WHERE c.relkind IN ('v', 'm')
+            UNION ALL
+            SELECT 4, 'pg_proc'::regclass, p.oid, p.pronamespace, CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' ELSE 'function' END,
+                   'public.' || quote_ident(p.proname) || '(' || pg_get_function_identity_arguments(p.oid) || ')',
+                   'DROP ' || CASE p.prokind WHEN 'a' THEN 'AGGREGATE' ELSE 'ROUTINE' END || ' IF EXISTS public.' || quote_ident(p.proname) || '(' || pg_get_function_identity_arguments(p.oid) || ') CASCADE'
+            FROM pg_proc p
+            UNION ALL
+            SELECT 5, 'pg_type'::regclass, t.oid, t.typnamespace, CASE t.typtype WHEN 'd' THEN 'domain' ELSE 'type' END, 'public.' || quote_ident(t.typname),
+                   'DROP ' || CASE t.typtype WHEN 'd' THEN 'DOMAIN' ELSE 'TYPE' END || ' IF EXISTS public.' || quote_ident(t.typname) || ' CASCADE'
+            FROM pg_type t WHERE t.typtype IN ('e', 'd')
+        ) o
+        JOIN pg_namespace n ON n.oid = o.namespace
+        WHERE n.nspname = 'public'
+          AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = o.classid AND d.objid = o.oid AND d.deptype = 'e')
+          AND o.oid IS DISTINCT FROM to_regclass(${quoteLiteral(trackingTableName())})
+          AND o.oid IS DISTINCT FROM to_regclass(${quoteLiteral(deployTrackingTableName())})
+          AND o.oid IS DISTINCT FROM to_regclass(${quoteLiteral(seedTrackingTableName())})
+        ORDER BY o.step, o.name`);
+    return [
+        ...objects.map(object => ({ label: `${object.kind} ${object.name}`, sql: object.statement })),
+        { label: `table ${trackingTableName()} (migration tracking)`, sql: `DROP TABLE IF EXISTS ${trackingTableName()} CASCADE` },
+        { label: `table ${deployTrackingTableName()} (deploy history)`, sql: `DROP TABLE IF EXISTS ${deployTrackingTableName()} CASCADE` },
+        { label: `table ${seedTrackingTableName()} (seed history)`, sql: `DROP TABLE IF EXISTS ${seedTrackingTableName()} CASCADE` }
+    ];
+};
+
 // Clean database - drop all tables and reset schema
 const cleanDatabase = async (options: any) => {
     try {
         console.log(chalk.blue('Starting database cleanup...'));
 
-        // Check if any options are provided
-        let usingEnv: boolean;
-        let usingOptions: boolean;
-
-        if (!options.host && !options.port && !options.user && !options.database) {
-            usingEnv = true;
-            usingOptions = false;
-        } else {
-            usingEnv = false;
-            usingOptions = true;
+        const connection = resolveConnection(options, 'clean');
+        if (!connection) {
+            return;
         }
+        const { host, port, user, database } = connection;
 
-        // Check if options are provided and completed
-        if (usingOptions && (!options.host || !options.port || !options.user || !options.database)) {
-            console.error(chalk.red('Please provide all required database connection options: host, port, user, database.'));
-            console.log(chalk.yellow("It is recommended to pass these as environment variables directly before the command instead, e.g.:"));
-            console.log(chalk.yellow("POSTGRES_HOST=localhost POSTGRES_PORT=5432 POSTGRES_USER=postgres POSTGRES_DB=postgres <bootstrappper-app> clean"));
+        const lockTimeout = parseLockTimeout(options.lockTimeout);
+        if (lockTimeout === null) {
+            console.error(chalk.red(`Invalid --lock-timeout value "${options.lockTimeout}". Please pass a number of seconds.`));
             return;
         }
 
-        if (usingEnv) {
-            // Check environment variables
-            const requiredEnvVars = [
-                'POSTGRES_HOST',
-                'POSTGRES_PORT',
-                'POSTGRES_USER',
-                'POSTGRES_DB'
-            ];
+        const client = createDatabaseClient(connection, options.executor);
+        try {
+            // Validate connection first
+            if (!(await validateDatabaseConnection(client))) {
+                return;
+            }
+
+            const plannedSteps = await cleanupPlan(client);
+            if (options.dryRun || options.emitSql) {
+                printPlan(`clean would drop, in order (CASCADE also drops anything that depends on these):`, plannedSteps);
+                if (options.emitSql) {
+                    writePlanScript(options.emitSql, 'clean', connection, transactionScript(planScript(plannedSteps)));
+                }
+                console.log(chalk.yellow(`Dry run: nothing was dropped from ${database}.`));
+                return;
+            }
+
+            // Show warning and get confirmation
+            console.log(chalk.red('\n⚠️  WARNING: This will permanently delete ALL data and tables in the database!'));
+            // The last three steps drop the tracking tables
+            const objectCount = plannedSteps.length - 3;
+            console.log(chalk.yellow(`${objectCount} object${objectCount === 1 ? '' : 's'} in public will be dropped (see them with --dry-run)`));
+            console.log(chalk.yellow(`Database: ${database}@${host}:${port}`));
+            console.log(chalk.red('This action cannot be undone!\n'));
+
+            // Skip confirmation if --force flag is provided
+            if (!options.force) {
+                console.log(chalk.blue('Please type "DELETE ALL DATA" to confirm:'));
+
+                // Read user input for confirmation
+                const confirmation = await new Promise<string>((resolve) => {
+                    process.stdin.resume();
+                    process.stdin.setEncoding('utf8');
+                    process.stdin.once('data', (data) => {
+                        resolve(data.toString().trim());
+                    });
+                });
+
+                if (confirmation !== 'DELETE ALL DATA') {
+                    console.log(chalk.yellow('Operation cancelled. Database was not modified.'));
+                    return;
+                }
+            } else {
+                console.log(chalk.yellow('⚠️  Force flag detected - skipping confirmation prompt'));
+            }
+
+            console.log(chalk.blue('\n🧹 Starting database cleanup...'));
+
+            // Create backup before cleaning (if requested)
+            if (options.backup) {
+                console.log(chalk.blue('📦 Creating backup before cleanup...'));
+                const backupDir = await backup(options);
+                if (!backupDir) {
+                    console.error(chalk.red('✗ Backup failed; the database was not cleaned.'));
+                    process.exitCode = 1;
+                    return;
+                }
+                console.log(chalk.green(`✓ Backup completed. Restore it later with: restore ${path.basename(backupDir)}`));
+            }
+
+            // Hold the migration lock so a concurrent migrate can't run against a half-dropped schema
+            const lock = await acquireMigrationLock(client, lockTimeout);
+            if (!lock) {
+                process.exitCode = 1;
+                return;
+            }
+
+            try {
+                console.log(chalk.blue('🗑️  Dropping all tables, functions, views, and types...'));
 
-            for (const varName of requiredEnvVars) {
-                if (!process.env[varName]) {
-                    console.error(chalk.red(`Environment variable ${varName} is not set. Please set it before running the clean command.`));
+                try {
+                    // Read the catalog again now that no migrate can change it, and drop everything in one transaction
+                    const steps = await cleanupPlan(client);
+                    await client.execute(transactionScript(...steps.map(step => step.sql)));
+
+                    console.log(chalk.green('✓ All database objects have been removed'));
+                    console.log(chalk.green('✓ Migration tracking has been reset'));
+                    console.log(chalk.blue('\n📋 You can now:'));
+                    console.log(chalk.blue('   • Run `deploy` to apply your postgres/ schema'));
+                    console.log(chalk.blue('   • Run `migrate` to apply migrations from scratch'));
+                    console.log(chalk.blue('   • Start fresh with a clean database'));
+
+                } catch (error) {
+                    console.error(chalk.red('✗ Error during database cleanup:'), error);
+                    console.log(chalk.yellow('\n💡 If you have a backup, list them with `restore` and restore one with `restore <name>`.'));
                     return;
                 }
+
+                console.log(chalk.green('\n🎉 Database cleanup completed successfully!'));
+            } finally {
+                await lock.release();
+            }
+        } finally {
+            await client.close();
+        }
+    } catch (error) {
+        console.error(chalk.red('Error during database cleanup:'), error);
+    }
+};
+
+// Objects in the given schemas, ignoring those owned by extensions. Empty for public after `clean`,
+// so a non-empty result means the restore would collide with existing objects.
+const schemaObjectsSql = (schemas: string[]) => `
+SELECT o.kind, n.nspname || '.' || o.name AS name FROM (
+    SELECT 'pg_class'::regclass AS classid, c.oid, c.relnamespace AS namespace, CASE c.relkind WHEN 'S' THEN 'sequence' WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized view' ELSE 'table' END AS kind, c.relname::text AS name
+    FROM pg_class c WHERE c.relkind IN ('r', 'p', 'f', 'v', 'm', 'S')
+    UNION ALL
+    SELECT 'pg_proc'::regclass, p.oid, p.pronamespace, 'function', p.proname::text
+    FROM pg_proc p
+    UNION ALL
+    SELECT 'pg_type'::regclass, t.oid, t.typnamespace, 'type', t.typname::text
+    FROM pg_type t WHERE t.typtype IN ('e', 'd')
+) o
+JOIN pg_namespace n ON n.oid = o.namespace
+WHERE n.nspname IN (${schemas.map(quoteLiteral).join(', ')})
+  AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = o.classid AND d.objid = o.oid AND d.deptype = 'e')
+ORDER BY o.kind, 2`;
+
+// Data-only tables that already hold rows; restoring into them would duplicate or conflict
+const populatedTablesSql = (tables: string[]) => tables.map(table => {
+    const [schema, ...name] = table.split('.');
+    return `SELECT 'rows in' AS kind, ${quoteLiteral(table)} AS name WHERE EXISTS (SELECT 1 FROM ${quoteIdent(schema!)}.${quoteIdent(name.join('.'))})`;
+}).join('\nUNION ALL\n');
+
+const restore = async (backupName: string | undefined, options: any) => {
+    try {
+        const backups = listBackups();
+
+        if (!backupName) {
+            if (backups.length === 0) {
+                console.log(chalk.yellow(`No backups found in ${loadProjectConfig().backupsDir}. Create one with dump-schema.`));
+                return;
             }
+            printBackups(backups);
+            console.log(chalk.blue(`\nRestore one with: restore <name> (or restore latest)`));
+            return;
         }
 
-        const host = usingEnv ? process.env.POSTGRES_HOST : options.host;
-        const port = usingEnv ? process.env.POSTGRES_PORT : options.port;
-        const user = usingEnv ? process.env.POSTGRES_USER : options.user;
-        const database = usingEnv ? process.env.POSTGRES_DB : options.database;
-        const password = process.env.POSTGRES_PASSWORD;
+        const selected = backupName === 'latest' ? backups[0] : backups.find(info => info.name === backupName || info.path === backupName);
+        if (!selected) {
+            console.error(chalk.red(`✗ Backup "${backupName}" not found.`));
+            if (backups.length > 0) printBackups(backups);
+            process.exitCode = 1;
+            return;
+        }
 
-        if (!password) {
-            console.error(chalk.red('Environment variable POSTGRES_PASSWORD is not set. Please set it before running the clean command.'));
+        if (selected.missing.length > 0) {
+            console.error(chalk.red(`✗ ${selected.name} is incomplete; missing ${selected.missing.join(', ')}`));
+            process.exitCode = 1;
             return;
         }
 
-        // Validate connection first
-        if (!(await validateDatabaseConnection(host!, port!, user!, database!, password))) {
+        const { manifest } = selected;
+        const jobs = options.jobs === undefined ? null : Number(options.jobs);
+        if (jobs !== null && (!Number.isInteger(jobs) || jobs < 1)) {
+            console.error(chalk.red('✗ --jobs must be a positive integer'));
+            process.exitCode = 1;
+            return;
+        }
+        if (jobs !== null && manifest.format === 'plain') {
+            console.error(chalk.red('✗ --jobs needs a custom or directory format backup; plain backups are restored with psql'));
+            process.exitCode = 1;
             return;
         }
 
-        // Show warning and get confirmation
-        console.log(chalk.red('\n⚠️  WARNING: This will permanently delete ALL data and tables in the database!'));
-        console.log(chalk.yellow(`Database: ${database}@${host}:${port}`));
-        console.log(chalk.red('This action cannot be undone!\n'));
+        const connection = resolveConnection(options, 'restore');
+        if (!connection) {
+            return;
+        }
+        const { host, port, user, database, password } = connection;
 
-        // Skip confirmation if --force flag is provided
-        if (!options.force) {
-            console.log(chalk.blue('Please type "DELETE ALL DATA" to confirm:'));
+        const lockTimeout = parseLockTimeout(options.lockTimeout);
+        if (lockTimeout === null) {
+            console.error(chalk.red(`Invalid --lock-timeout value "${options.lockTimeout}". Please pass a number of seconds.`));
+            return;
+        }
 
-            // Read user input for confirmation
-            const confirmation = await new Promise<string>((resolve) => {
-                process.stdin.resume();
-                process.stdin.setEncoding('utf8');
-                process.stdin.once('data', (data) => {
-                    resolve(data.toString().trim());
-                });
-            });
+        const steps = backupSteps(manifest);
+        console.log(chalk.blue(`\nRestore plan for ${selected.name} (${manifest.format}) into ${database}@${host}:${port}:`));
+        steps.forEach((step, index) => {
+            const size = pathSize(`${selected.path}/${step.file}`);
+            console.log(chalk.blue(`  ${index + 1}. ${step.section.padEnd(9)} ${step.file} (${formatBytes(size)})`));
+        });
+        console.log(chalk.blue(`  Schemas: ${manifest.schemas.join(', ')}${manifest.dataOnlySchemas.length > 0 ? ` (data only: ${manifest.dataOnlySchemas.join(', ')})` : ''}`));
 
-            if (confirmation !== 'DELETE ALL DATA') {
-                console.log(chalk.yellow('Operation cancelled. Database was not modified.'));
+        const client = createDatabaseClient(connection, options.executor);
+        try {
+            if (!(await validateDatabaseConnection(client))) {
+                process.exitCode = 1;
                 return;
             }
-        } else {
-            console.log(chalk.yellow('⚠️  Force flag detected - skipping confirmation prompt'));
-        }
-
-        console.log(chalk.blue('\n🧹 Starting database cleanup...'));
-
-        // Create backup before cleaning (if requested)
-        if (options.backup) {
-            console.log(chalk.blue('📦 Creating backup before cleanup...'));
-            await backup(options);
-            console.log(chalk.green('✓ Backup completed'));
-        }
-
-        // SQL to clean database - using file approach with proper PostgreSQL syntax
-        const cleanupSQL = `
-DO $$ 
-DECLARE
-    r RECORD;
-BEGIN
-    -- Drop all tables
-    FOR r IN (SELECT tablename FROM pg_tables WHERE schemaname = 'public') LOOP
-        EXECUTE 'DROP TABLE IF EXISTS public.' || quote_ident(r.tablename) || ' CASCADE';
-    END LOOP;
-    
-    -- Drop all sequences
-    FOR r IN (SELECT sequence_name FROM information_schema.sequences WHERE sequence_schema = 'public') LOOP
-        EXECUTE 'DROP SEQUENCE IF EXISTS public.' || quote_ident(r.sequence_name) || ' CASCADE';
-    END LOOP;
-    
-    -- Drop all views
-    FOR r IN (SELECT table_name FROM information_schema.views WHERE table_schema = 'public') LOOP
-        EXECUTE 'DROP VIEW IF EXISTS public.' || quote_ident(r.table_name) || ' CASCADE';
-    END LOOP;
-    
-    -- Drop all functions
-    FOR r IN (SELECT routines.routine_name FROM information_schema.routines WHERE routines.routine_schema = 'public') LOOP
-        EXECUTE 'DROP FUNCTION IF EXISTS public.' || quote_ident(r.routine_name) || ' CASCADE';
-    END LOOP;
-    
-    -- Drop all types
-    FOR r IN (SELECT typname FROM pg_type WHERE typnamespace = (SELECT oid FROM pg_namespace WHERE nspname = 'public') AND typtype = 'e') LOOP
-        EXECUTE 'DROP TYPE IF EXISTS public.' || quote_ident(r.typname) || ' CASCADE';
-    END LOOP;
-END $$ LANGUAGE plpgsql;
-        `.trim();
-
-        console.log(chalk.blue('🗑️  Dropping all tables, functions, views, and types...'));
 
-        try {
-            // Write SQL to a temporary file to avoid shell escaping issues
-            const tempSqlPath = require('path').resolve('temp_cleanup.sql');
-            fs.writeFileSync(tempSqlPath, cleanupSQL);
+            // Only restore into empty (or freshly cleaned) schemas and empty data-only tables
+            const dataOnlyTables = Object.entries(manifest.rowCounts)
+                .filter(([table, count]) => count > 0 && manifest.dataOnlySchemas.includes(table.split('.')[0]!))
+                .map(([table]) => table);
+            const existing = [
+                ...await client.query<{ kind: string; name: string }>(schemaObjectsSql(manifest.schemas)),
+                ...(dataOnlyTables.length > 0 ? await client.query<{ kind: string; name: string }>(populatedTablesSql(dataOnlyTables)) : [])
+            ];
+            if (existing.length > 0) {
+                console.error(chalk.red(`✗ Target database is not empty (${existing.length} conflicting object${existing.length === 1 ? '' : 's'}):`));
+                existing.slice(0, 10).forEach(object => console.error(chalk.red(`    ${object.kind} ${object.name}`)));
+                if (existing.length > 10) console.error(chalk.red(`    ... and ${existing.length - 10} more`));
+                console.log(chalk.yellow('Run `clean` first (it empties the public schema), or restore into a fresh database.'));
+                process.exitCode = 1;
+                return;
+            }
+            console.log(chalk.green(`✓ Target is empty: ${[...manifest.schemas, ...manifest.dataOnlySchemas].join(', ')}`));
 
-            // Execute the SQL file
-            await $`docker run --rm -v ${tempSqlPath}:/cleanup.sql -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -f /cleanup.sql`;
+            if (options.dryRun) {
+                console.log(chalk.yellow('\nDry run: nothing was restored.'));
+                return;
+            }
 
-            // Clean up temporary file
-            fs.unlinkSync(tempSqlPath);
+            const lock = await acquireMigrationLock(client, lockTimeout);
+            if (!lock) {
+                process.exitCode = 1;
+                return;
+            }
 
-            // Reset migration tracking - handle case where table might not exist
             try {
-                await $`docker run --rm -e PGPASSWORD=${password} postgres:latest psql -h ${host} -p ${port} -U ${user} -d ${database} -c "DROP TABLE IF EXISTS schema_migrations CASCADE;"`;
-                console.log(chalk.green('✓ Migration tracking table removed'));
-            } catch (error) {
-                console.log(chalk.yellow('⚬ No migration tracking table found to remove'));
+                // pg_dump output can contain psql meta-commands, so plain files always run through psql
+                const absoluteBackupDir = path.resolve(selected.path);
+                const docker = ['docker', 'run', '--rm', '-i', '-v', `${absoluteBackupDir}:/backup:ro`, '-e', `PGPASSWORD=${password}`, '-e', `PGAPPNAME=${APPLICATION_NAME}`, ...dockerSslArgs(connection), loadProjectConfig().dockerImage];
+                for (const step of steps) {
+                    console.log(chalk.blue(`Restoring ${step.section} from ${step.file}...`));
+                    try {
+                        if (manifest.format === 'plain' && manifest.compression !== 'none') {
+                            // psql cannot read compressed files, so they are decompressed here and streamed in
+                            const script = openBackupFile(`${selected.path}/${step.file}`, manifest.compression);
+                            await $`${docker} psql -X -q -v ON_ERROR_STOP=1 --single-transaction -h ${host} -p ${port} -U ${user} -d ${database} -f - < ${new Response(script)}`;
+                        } else if (manifest.format === 'plain') {
+                            await $`${docker} psql -X -q -v ON_ERROR_STOP=1 --single-transaction -h ${host} -p ${port} -U ${user} -d ${database} -f /backup/${step.file}`;
+                        } else {
+                            const sectionArgs = step.section === 'data' ? ['--data-only'] : [`--section=${step.section}`];
+                            // pg_restore cannot run parallel jobs inside a single transaction
+                            const parallelArgs = step.section === 'data' && jobs ? ['-j', String(jobs)] : ['--single-transaction'];
+                            await $`${docker} pg_restore --exit-on-error ${sectionArgs} ${parallelArgs} -h ${host} -p ${port} -U ${user} -d ${database} /backup/${step.file}`;
+                        }
+                    } catch (error) {
+                        const rolledBack = manifest.format === 'plain' || !(step.section === 'data' && jobs);
+                        console.error(chalk.red(`✗ Restoring ${step.section} from ${step.file} failed${rolledBack ? '; it was rolled back' : ''}.`), error);
+                        if (step !== steps[0]) {
+                            console.log(chalk.yellow('Earlier steps were already restored. Run `clean` before trying again.'));
+                        }
+                        process.exitCode = 1;
+                        return;
+                    }
+                    console.log(chalk.green(`✓ ${step.section} restored`));
+                }
+            } finally {
+                await lock.release();
             }
 
-            console.log(chalk.green('✓ All database objects have been removed'));
-            console.log(chalk.green('✓ Migration tracking has been reset'));
-            console.log(chalk.blue('\n📋 You can now:'));
-            console.log(chalk.blue('   • Run `deploy` to apply your postgres/ schema'));
-            console.log(chalk.blue('   • Run `migrate` to apply migrations from scratch'));
-            console.log(chalk.blue('   • Start fresh with a clean database'));
-
-        } catch (error) {
-            console.error(chalk.red('✗ Error during database cleanup:'), error);
-            console.log(chalk.yellow('\n💡 If you have a backup, you can restore it using standard PostgreSQL tools.'));
-            return;
+            console.log(chalk.green(`\n🎉 Restored ${selected.name} into ${database}`));
+        } finally {
+            await client.close();
         }
-
-        console.log(chalk.green('\n🎉 Database cleanup completed successfully!'));
-
     } catch (error) {
-        console.error(chalk.red('Error during database cleanup:'), error);
+        console.error(chalk.red('Error during restore:'), error);
+        process.exitCode = 1;
     }
 };
 
@@ -941,7 +5570,17 @@ const main = async () => {
     program
         .name("Supabase bootstrapper by Marcus Marrio (Suliluz)")
         .description("A CLI tool to bootstrap Supabase projects with predefined templates.")
-        .version("1.0.0");
+        .version(TOOL_VERSION);
+
+    // Validate the project config before any command runs, so a typo fails fast instead of halfway through
+    program.hook('preAction', () => {
+        try {
+            loadProjectConfig();
+        } catch (error) {
+            console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+            process.exit(1);
+        }
+    });
 
     program
         .command("create")
@@ -958,6 +5597,15 @@ const main = async () => {
             compileTemplate(options.input);
         });
 
+    program
+        .command("rotate")
+        .description("Rotate secrets in the generated .env (jwt, postgres-password, dashboard-password, vault-key, secret-key-base).")
+        .argument("[secrets...]", "Secrets to rotate")
+        .option("--all", "Rotate every secret", false)
+        .action((secrets, options) => {
+            rotateSecrets(secrets, options);
+        });
+
     program
         .command("init")
         .description("Initialize the Supabase project structure.")
@@ -966,13 +5614,13 @@ const main = async () => {
         });
 
     // === SCHEMA DEPLOYMENT (postgres folder) ===
-    program
-        .command("deploy")
+    withConnectionOptions(program.command("deploy"))
         .description("Deploy combined SQL schema from postgres/ folder (for initial setup or full rebuilds)")
-        .option("-h, --host <host>", "Database host", "localhost")
-        .option("-p, --port <port>", "Database port", "5432")
-        .option("-u, --user <user>", "Database user", "postgres")
-        .option("-d, --database <database>", "Database name", "postgres")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .option("--dry-run", "List the files that would be deployed, in order, without deploying", false)
+        .option("--emit-sql <file>", "Write the combined script to a file instead of running it")
+        .option("--changed-only", "Only re-run the schema areas whose files changed since the last deploy", false)
+        .option("--force", "Re-run non-idempotent areas (nonIdempotentSchemaFiles) on a database that was already deployed to", false)
         .action((options) => {
             deploy(options);
         });
@@ -986,48 +5634,181 @@ const main = async () => {
             createMigration(options.name);
         });
 
+    withConnectionOptions(program.command("diff"))
+        .description("Compare the postgres/ schema files with the database and write the difference as a new migration")
+        .option("-n, --name <name>", "Migration name", "schema_diff")
+        .option("--schema <name>", "Schema to compare (repeatable, default: public)", collectOption, [])
+        .option("--allow-drops", "Drop tables, columns, sequences and enum types the schema files no longer have", false)
+        .option("--shadow-image <image>", "Docker image for the throwaway shadow database (default: dockerImage from the project config)")
+        .option("--shadow-url <url>", "Use this empty database as the shadow instead of starting a container")
+        .option("--dry-run", "Print the migration instead of writing it", false)
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .action((options) => {
+            diffSchema(options);
+        });
+
     program
-        .command("migrate")
+        .command("lint [files...]")
+        .description("Check migrations for risky statements (default: every migration in migrations/)")
+        .option("--format <format>", "Output format: human, json or sarif", "human")
+        .option("-o, --output <file>", "Write the json or sarif report to a file instead of stdout")
+        .action((files, options) => {
+            lint(files, options);
+        });
+
+    withConnectionOptions(program.command("migrate"))
         .description("Apply pending migrations from migrations/ folder (for incremental updates)")
-        .option("-h, --host <host>", "Database host", "localhost")
-        .option("-p, --port <port>", "Database port", "5432")
-        .option("-u, --user <user>", "Database user", "postgres")
-        .option("-d, --database <database>", "Database name", "postgres")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
         .option("-t, --target <target>", "Target migration name")
+        .option("--allow-drift", "Continue even if applied migrations were changed or removed on disk")
+        .option("--atomic", "Apply all pending migrations in a single transaction")
+        .option("--validate", "Apply the pending migrations to a shadow copy of the target first, and stop if any fails", false)
+        .option("--validate-only", "Validate without applying anything to the target", false)
+        .option("--check-rollback", "While validating, also roll the migrations back and re-apply them", false)
+        .option("--schema <name>", "Schema copied into the shadow database (repeatable, default: public)", collectOption, [])
+        .option("--shadow-image <image>", "Docker image for the shadow database (default: dockerImage from the project config)")
+        .option("--dry-run", "List the steps migrate would run, in order, without applying anything", false)
+        .option("--emit-sql <file>", "Write the complete migration script to a file instead of running it")
+        .option("--lock-timeout <seconds>", "Seconds to wait for another migrate, rollback or clean to finish (0 waits forever)", "60")
+        .option("--skip-lint", "Apply even if the pending migrations have lint errors")
         .action((options) => {
             migrate(options);
         });
 
-    program
-        .command("status")
+    withConnectionOptions(program.command("security-check"))
+        .description("Report tables without RLS, RLS without policies, unsafe SECURITY DEFINER functions and risky API grants in the exposed schemas")
+        .option("--schema <name>", "Schema to check (repeatable, default: PGRST_DB_SCHEMAS from the generated .env)", collectOption, [])
+        .option("--pending", "Check the database as it will be after the pending migrations, using a shadow copy", false)
+        .option("--shadow-image <image>", "Docker image for the shadow database (default: dockerImage from the project config)")
+        .option("--ignore <object>", "Accept findings for an object, e.g. public.countries or table-without-rls:public.countries (repeatable)", collectOption, [])
+        .option("--strict", "Exit non-zero on warnings too", false)
+        .option("--format <format>", "Output format: human or json", "human")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .action((options) => {
+            securityCheck(options);
+        });
+
+    withConnectionOptions(program.command("squash"))
+        .description("Replace the migrations up to a version with one baseline built from a fresh apply, and archive the originals")
+        .requiredOption("--to <version>", "Last migration to squash (version or part of its name)")
+        .option("-n, --name <name>", "Baseline migration name", "baseline")
+        .option("--schema <name>", "Schema to dump into the baseline (repeatable, default: public and every schema the migrations create)", collectOption, [])
+        .option("--shadow-image <image>", "Docker image for the shadow database (default: dockerImage from the project config)")
+        .option("--shadow-url <url>", "Use this empty database as the shadow instead of starting a container")
+        .option("--dry-run", "Print the baseline instead of writing it, and archive nothing", false)
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .action((options) => {
+            squash(options);
+        });
+
+    withConnectionOptions(program.command("rollback"))
+        .description("Revert the last applied migrations using their down sections")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .option("-n, --steps <steps>", "Number of migrations to roll back", "1")
+        .option("-t, --target <target>", "Roll back every migration applied after this one")
+        .option("--allow-drift", "Roll back even if the migration file changed since it was applied")
+        .option("--lock-timeout <seconds>", "Seconds to wait for another migrate, rollback or clean to finish (0 waits forever)", "60")
+        .action((options) => {
+            rollback(options);
+        });
+
+    withConnectionOptions(program.command("status"))
         .description("Show migration status (applied vs pending migrations)")
-        .option("-h, --host <host>", "Database host", "localhost")
-        .option("-p, --port <port>", "Database port", "5432")
-        .option("-u, --user <user>", "Database user", "postgres")
-        .option("-d, --database <database>", "Database name", "postgres")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
         .action((options) => {
             showMigrationStatus(options);
         });
 
     // === DATABASE OPERATIONS ===
     program
-        .command("dump-schema")
-        .description("Export current database schema to migrations/ folder (for creating baseline or backups)")
-        .option("-h, --host <host>", "Database host", "localhost")
-        .option("-p, --port <port>", "Database port", "5432")
-        .option("-u, --user <user>", "Database user", "postgres")
-        .option("-d, --database <database>", "Database name", "postgres")
+        .command("compare")
+        .description("Show the migrations two databases have applied, and with --promote apply to the target exactly what the source has")
+        .requiredOption("--from <env>", "Source environment from the project config, or a connection URL")
+        .requiredOption("--to <env>", "Target environment from the project config, or a connection URL")
+        .option("--promote", "Apply to the target the migrations applied on the source but not on the target", false)
+        .option("--validate", "When promoting, apply the migrations to a shadow copy of the target first", false)
+        .option("--dry-run", "When promoting, list the steps without applying anything", false)
+        .option("--lock-timeout <seconds>", "Seconds to wait for another migrate, rollback or clean to finish (0 waits forever)", "60")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .action((options) => {
+            compareEnvironments(options);
+        });
+
+    withConnectionOptions(program.command("seed"))
+        .description("Load named seed sets (seeds/dev, seeds/test, ...) once each; without a set name, list the sets and which are applied")
+        .argument("[sets...]", "Seed sets to load, in order")
+        .option("--reset <table>", "Truncate this table before seeding, and load the sets even if already applied (repeatable)", collectOption, [])
+        .option("--dry-run", "List the files that would be loaded, in order, without loading them", false)
+        .option("--emit-sql <file>", "Write the seed script to a file instead of running it")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .action((sets, options) => {
+            seed(sets, options);
+        });
+
+    withConnectionOptions(program.command("dump-schema"))
+        .description("Back up the database schema and data to the backups folder")
+        .option("--schema <name>", "Schema to back up with structure and data (repeatable, default: public)", collectOption, [])
+        .option("--exclude-table <pattern>", "Table to leave out, as a pg_dump pattern such as public.audit_* (repeatable)", collectOption, [])
+        .option("--preset <name>", `Add a preset: ${Object.keys(BACKUP_PRESETS).join(', ')} (auth and storage data without Supabase internals)`)
+        .option("--format <format>", "plain (SQL files), custom (pg_restore archive) or directory (parallel dump)", "plain")
+        .option("-j, --jobs <n>", "Parallel pg_dump jobs (directory format only)")
+        .option("--column-inserts", "Write data as INSERT statements instead of COPY (plain format only; slow)", false)
+        .option("--compress <method>", "none, gzip or zstd (default: none for plain, gzip for archives)")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
         .action((options) => {
             backup(options);
         });
 
-    program
-        .command("test-connection")
+    withConnectionOptions(program.command("restore"))
+        .description("List dump-schema backups, or restore one (by name or \"latest\") into an empty database")
+        .argument("[backup]", "Backup folder name, or \"latest\"")
+        .option("--dry-run", "Print the restore plan and check the target without restoring", false)
+        .option("-j, --jobs <n>", "Parallel pg_restore jobs for the data of custom and directory backups")
+        .option("--lock-timeout <seconds>", "Seconds to wait for another migrate, rollback or clean to finish (0 waits forever)", "60")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
+        .action((backupName, options) => {
+            restore(backupName, options);
+        });
+
+    const backupsCommand = program
+        .command("backups")
+        .description("Inspect and maintain dump-schema backups");
+
+    backupsCommand
+        .command("list")
+        .description("List backups, newest first")
+        .action(() => {
+            const backups = listBackups();
+            if (backups.length === 0) {
+                console.log(chalk.yellow(`No backups found in ${loadProjectConfig().backupsDir}.`));
+            } else {
+                printBackups(backups);
+            }
+        });
+
+    backupsCommand
+        .command("verify")
+        .description("Re-check backup checksums and read every dump to the end (all backups by default)")
+        .argument("[backup]", "Backup folder name, or \"latest\"")
+        .option("--hashes-only", "Only compare checksums; skip reading the dumps", false)
+        .action((backupName, options) => {
+            verifyBackups(backupName, options);
+        });
+
+    backupsCommand
+        .command("prune")
+        .description("Delete backups not kept by the retention rules")
+        .option("--keep-last <n>", "Keep the newest n backups")
+        .option("--keep-daily <n>", "Keep the newest backup of each of the last n days")
+        .option("--keep-weekly <n>", "Keep the newest backup of each of the last n weeks")
+        .option("--dry-run", "Show what would be deleted without deleting", false)
+        .action((options) => {
+            pruneBackups(options);
+        });
+
+    withConnectionOptions(program.command("test-connection"))
         .description("Test database connection")
-        .option("-h, --host <host>", "Database host", "localhost")
-        .option("-p, --port <port>", "Database port", "5432")
-        .option("-u, --user <user>", "Database user", "postgres")
-        .option("-d, --database <database>", "Database name", "postgres")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
         .action((options) => {
             testConnection(options);
         });
@@ -1048,15 +5829,14 @@ const main = async () => {
             stopLocal();
         });
 
-    program
-        .command("clean")
+    withConnectionOptions(program.command("clean"))
         .description("Clean the database - drop all tables, views, functions, and types (with confirmation)")
-        .option("-h, --host <host>", "Database host", "localhost")
-        .option("-p, --port <port>", "Database port", "5432")
-        .option("-u, --user <user>", "Database user", "postgres")
-        .option("-d, --database <database>", "Database name", "postgres")
+        .option("--executor <executor>", "How to run SQL: native (in-process driver) or psql (Docker fallback)", "native")
         .option("--force", "Skip confirmation prompt")
         .option("--backup", "Create a backup before cleaning")
+        .option("--dry-run", "List the objects that would be dropped, in order, without dropping them", false)
+        .option("--emit-sql <file>", "Write the drop script to a file instead of running it")
+        .option("--lock-timeout <seconds>", "Seconds to wait for another migrate, rollback or clean to finish (0 waits forever)", "60")
         .action((options) => {
             cleanDatabase(options);
         });
@@ -1064,7 +5844,38 @@ const main = async () => {
     await program.parseAsync(process.argv);
 }
 
-main().catch(error => {
-    console.error('Error occurred during build', error);
-    process.exit(1);
-});
+// For the unit tests in test/
+export {
+    detectMigrationDrift,
+    lookupPgpass,
+    parseConnectionUrl,
+    validateProjectConfig,
+    validateInputConfig,
+    isoWeek,
+    selectBackupsToKeep,
+    diffCatalogs,
+    LINT_RULES,
+    lintStatement,
+    lintMigrationFile,
+    defaultProjectConfig,
+    schemaFileDependencies,
+    loadSchemaFiles,
+    combineSchemaFiles,
+    changedAreas,
+    withDependentAreas,
+    parseCsv,
+    seedFileSql,
+    splitSqlStatementRanges,
+    splitSqlStatements,
+    nativeExecutorLimitation,
+    resolveConnection,
+    printSecurityReport
+};
+
+// Only run the CLI when started directly, not when the tests import this file
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error occurred during build', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { isoWeek, selectBackupsToKeep } from "../index.ts";
+
+type BackupInfo = Parameters<typeof selectBackupsToKeep>[0][number];
+
+// Backups as listBackups returns them, newest first
+const backup = (name: string, createdAt: string | null, legacy = false): BackupInfo => ({
+    name,
+    path: `backups/${name}`,
+    createdAt: createdAt ? new Date(createdAt) : null,
+    manifest: {} as BackupInfo['manifest'],
+    missing: [],
+    size: 0,
+    legacy
+});
+
+const backups = [
+    backup('backup_20250115T200000', '2025-01-15T20:00:00Z'),
+    backup('backup_20250115T080000', '2025-01-15T08:00:00Z'),
+    backup('backup_20250114T080000', '2025-01-14T08:00:00Z'),
+    backup('backup_20250112T080000', '2025-01-12T08:00:00Z'),
+    backup('backup_20250105T080000', '2025-01-05T08:00:00Z'),
+    backup('backup_20241229T080000', '2024-12-29T08:00:00Z')
+];
+
+describe("isoWeek", () => {
+    test("numbers weeks from the one with the year's first Thursday", () => {
+        expect(isoWeek(new Date('2025-01-15T12:00:00Z'))).toBe('2025-W03');
+        expect(isoWeek(new Date('2025-01-12T23:59:59Z'))).toBe('2025-W02');
+        expect(isoWeek(new Date('2025-01-13T00:00:00Z'))).toBe('2025-W03');
+    });
+
+    test("puts days around New Year in the right year", () => {
+        expect(isoWeek(new Date('2024-12-30T00:00:00Z'))).toBe('2025-W01');
+        expect(isoWeek(new Date('2021-01-03T00:00:00Z'))).toBe('2020-W53');
+    });
+});
+
+describe("selectBackupsToKeep", () => {
+    test("keeps the newest N with --keep-last", () => {
+        expect([...selectBackupsToKeep(backups, { last: 2, daily: 0, weekly: 0 }).keys()]).toEqual([
+            'backup_20250115T200000',
+            'backup_20250115T080000'
+        ]);
+    });
+
+    test("keeps the newest backup of each of the last N days that have one", () => {
+        const keep = selectBackupsToKeep(backups, { last: 0, daily: 3, weekly: 0 });
+        expect([...keep.entries()]).toEqual([
+            ['backup_20250115T200000', ['daily 2025-01-15']],
+            ['backup_20250114T080000', ['daily 2025-01-14']],
+            ['backup_20250112T080000', ['daily 2025-01-12']]
+        ]);
+    });
+
+    test("keeps the union of the rules, with every reason", () => {
+        const keep = selectBackupsToKeep(backups, { last: 1, daily: 1, weekly: 3 });
+        expect(keep.get('backup_20250115T200000')).toEqual(['last', 'daily 2025-01-15', 'weekly 2025-W03']);
+        expect(keep.get('backup_20250112T080000')).toEqual(['weekly 2025-W02']);
+        expect(keep.get('backup_20250105T080000')).toEqual(['weekly 2025-W01']);
+        expect(keep.has('backup_20241229T080000')).toBe(false);
+    });
+
+    test("never selects backups of unknown age or in the legacy location for removal", () => {
+        const keep = selectBackupsToKeep([
+            ...backups,
+            backup('backup_manual', null),
+            backup('backup_20200101T000000', '2020-01-01T00:00:00Z', true)
+        ], { last: 1, daily: 0, weekly: 0 });
+        expect(keep.get('backup_manual')).toEqual(['unknown date']);
+        expect(keep.get('backup_20200101T000000')).toEqual(['legacy location']);
+    });
+});
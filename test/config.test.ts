@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { validateProjectConfig } from "../index.ts";
+
+describe("validateProjectConfig", () => {
+    test("accepts an empty config and a full one", () => {
+        expect(validateProjectConfig({})).toEqual([]);
+        expect(validateProjectConfig({
+            $schema: './supabase-tool.config.schema.json',
+            projectDir: 'db',
+            schemaFiles: ['base', 'functions'],
+            nonIdempotentSchemaFiles: ['base'],
+            trackingTable: { schema: 'tooling', name: 'migrations' },
+            environments: { prod: { url: 'postgres://db.example.com/app', sslmode: 'verify-full', port: 5432 } },
+            lint: { rules: { 'drop-table': 'off' } }
+        })).toEqual([]);
+    });
+
+    test("rejects anything but an object", () => {
+        expect(validateProjectConfig([])).toEqual(['(root): must be a JSON object']);
+        expect(validateProjectConfig(null)).toEqual(['(root): must be a JSON object']);
+    });
+
+    test("names the path of every problem", () => {
+        const errors = validateProjectConfig({
+            migrationDir: 'typo',
+            schemaDir: '',
+            schemaFiles: ['base', 'base', 3],
+            trackingTable: { schema: 'public', name: 'bad-name', table: 'x' },
+            environments: { prod: { port: 70000, sslmode: 'sometimes', url: 'mysql://x', pasword: 'x' } },
+            lint: { rules: { 'no-such-rule': 'error', 'drop-table': 'loud' } }
+        });
+        expect(errors.map(error => error.split(':')[0])).toEqual([
+            'migrationDir',
+            'schemaDir',
+            'schemaFiles[1]',
+            'schemaFiles[2]',
+            'trackingTable.name',
+            'trackingTable.table',
+            'environments.prod.port',
+            'environments.prod.sslmode',
+            'environments.prod.url',
+            'environments.prod.pasword',
+            'lint.rules.no-such-rule',
+            'lint.rules.drop-table'
+        ]);
+    });
+});
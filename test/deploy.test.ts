@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { changedAreas, withDependentAreas } from "../index.ts";
+
+type DeployRecord = Parameters<typeof changedAreas>[2];
+type SchemaFile = Parameters<typeof withDependentAreas>[2][number];
+
+const areas = ['base', 'functions', 'views', 'data'];
+
+const files = [
+    { path: 'base/users.sql', area: 'base', sha256: 'u1' },
+    { path: 'base/posts.sql', area: 'base', sha256: 'p1' },
+    { path: 'functions/is_admin.sql', area: 'functions', sha256: 'f1' },
+    { path: 'views.sql', area: 'views', sha256: 'v1' }
+];
+
+const lastDeploy = (deployed: typeof files): DeployRecord => ({
+    deployedAt: '2025-01-01T00:00:00Z',
+    deployedBy: 'ci',
+    gitCommit: null,
+    areas,
+    files: deployed
+});
+
+describe("changedAreas", () => {
+    test("finds nothing when every file has the same hash", () => {
+        expect(changedAreas(areas, files, lastDeploy([...files].reverse()))).toEqual([]);
+    });
+
+    test("finds areas with a file edited, added or removed", () => {
+        const deployed = [
+            { path: 'base/users.sql', area: 'base', sha256: 'u0' },
+            { path: 'base/posts.sql', area: 'base', sha256: 'p1' },
+            { path: 'functions/is_admin.sql', area: 'functions', sha256: 'f1' },
+            { path: 'functions/old.sql', area: 'functions', sha256: 'o1' },
+            { path: 'views.sql', area: 'views', sha256: 'v1' }
+        ];
+        expect(changedAreas(areas, files, lastDeploy(deployed))).toEqual(['base', 'functions']);
+        expect(changedAreas(areas, [...files, { path: 'data/seed.sql', area: 'data', sha256: 'd1' }], lastDeploy(files))).toEqual(['data']);
+    });
+
+    test("counts a file moved between areas as a change to both", () => {
+        const deployed = files.map(file => file.path === 'views.sql' ? { ...file, area: 'functions' } : file);
+        expect(changedAreas(areas, files, lastDeploy(deployed))).toEqual(['functions', 'views']);
+    });
+});
+
+describe("withDependentAreas", () => {
+    const schemaFile = (filePath: string, area: string, dependsOn: string[] = []): SchemaFile => ({ path: filePath, area, dependsOn, content: '' });
+    const schemaFiles = [
+        schemaFile('base/users.sql', 'base'),
+        schemaFile('functions/is_admin.sql', 'functions', ['base/users.sql']),
+        schemaFile('views.sql', 'views', ['functions/is_admin.sql']),
+        schemaFile('data/seed.sql', 'data')
+    ];
+
+    test("adds areas that depend on a changed one, directly or through a chain, in area order", () => {
+        expect(withDependentAreas(areas, ['base'], schemaFiles)).toEqual(['base', 'functions', 'views']);
+        expect(withDependentAreas(areas, ['functions'], schemaFiles)).toEqual(['functions', 'views']);
+    });
+
+    test("leaves changed areas without dependents alone", () => {
+        expect(withDependentAreas(areas, ['data', 'views'], schemaFiles)).toEqual(['views', 'data']);
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { diffCatalogs } from "../index.ts";
+
+type CatalogSnapshot = Parameters<typeof diffCatalogs>[0];
+type CatalogTable = CatalogSnapshot['tables'] extends Map<string, infer T> ? T : never;
+
+const catalog = (parts: Partial<CatalogSnapshot> = {}): CatalogSnapshot => ({
+    enums: new Map(),
+    sequences: new Map(),
+    tables: new Map(),
+    constraints: new Map(),
+    indexes: new Map(),
+    views: new Map(),
+    functions: new Map(),
+    triggers: new Map(),
+    policies: new Map(),
+    ...parts
+});
+
+const column = (name: string, type: string, extra: Partial<CatalogTable['columns'][number]> = {}) => ({
+    name, type, notNull: false, default: null, identity: '', generated: '', ...extra
+});
+
+const table = (name: string, columns: CatalogTable['columns'], rls = false): [string, CatalogTable] => [name, { name, rls, columns }];
+
+const sqlOf = (from: CatalogSnapshot, to: CatalogSnapshot) => diffCatalogs(from, to).statements.map(statement => statement.sql);
+
+describe("diffCatalogs", () => {
+    test("finds nothing to do between equal catalogs", () => {
+        const users = catalog({ tables: new Map([table('public.users', [column('id', 'bigint', { notNull: true })])]) });
+        expect(diffCatalogs(users, users)).toEqual({ statements: [], warnings: [], addsEnumValues: false });
+    });
+
+    test("creates new tables with their columns and RLS", () => {
+        const to = catalog({ tables: new Map([table('public.notes', [
+            column('id', 'bigint', { notNull: true, identity: 'd' }),
+            column('body', 'text', { default: "''::text" })
+        ], true)]) });
+        expect(sqlOf(catalog(), to)).toEqual([
+            "CREATE TABLE public.notes (\n    id bigint GENERATED BY DEFAULT AS IDENTITY NOT NULL,\n    body text DEFAULT ''::text\n)",
+            'ALTER TABLE public.notes ENABLE ROW LEVEL SECURITY'
+        ]);
+    });
+
+    test("alters changed columns and marks dropped ones as destructive", () => {
+        const from = catalog({ tables: new Map([table('public.users', [column('id', 'integer', { default: "nextval('users_id_seq'::regclass)" }), column('nickname', 'text')])]) });
+        const to = catalog({ tables: new Map([table('public.users', [column('id', 'bigint', { default: "nextval('users_id_seq'::regclass)" }), column('email', 'text', { notNull: true })])]) });
+        const diff = diffCatalogs(from, to);
+        expect(diff.statements).toEqual([
+            { sql: 'ALTER TABLE public.users ALTER COLUMN id DROP DEFAULT', destructive: false },
+            { sql: 'ALTER TABLE public.users ALTER COLUMN id TYPE bigint USING id::bigint', destructive: false },
+            { sql: "ALTER TABLE public.users ALTER COLUMN id SET DEFAULT nextval('users_id_seq'::regclass)", destructive: false },
+            { sql: 'ALTER TABLE public.users ADD COLUMN email text NOT NULL', destructive: false },
+            { sql: 'ALTER TABLE public.users DROP COLUMN nickname', destructive: true }
+        ]);
+        expect(diff.warnings).toEqual(['public.users.id: type changes from integer to bigint; check the USING cast']);
+    });
+
+    test("adds enum values in place and warns about removed ones", () => {
+        const from = catalog({ enums: new Map([['public.status', ['draft', 'archived']]]) });
+        const to = catalog({ enums: new Map([['public.status', ['new', 'draft', 'published']]]) });
+        const diff = diffCatalogs(from, to);
+        expect(diff.statements.map(statement => statement.sql)).toEqual([
+            "ALTER TYPE public.status ADD VALUE 'new' BEFORE 'draft'",
+            "ALTER TYPE public.status ADD VALUE 'published' AFTER 'draft'"
+        ]);
+        expect(diff.addsEnumValues).toBe(true);
+        expect(diff.warnings).toEqual(["enum public.status: 'archived' cannot be removed automatically; recreate the type by hand"]);
+    });
+
+    test("drops dependents before what they depend on and recreates them after", () => {
+        const users = table('public.users', [column('id', 'bigint')]);
+        const posts = table('public.posts', [column('id', 'bigint'), column('user_id', 'bigint')]);
+        const constraint = (name: string, tableName: string, kind: string, definition: string) => ({ name, table: tableName, kind, definition });
+        const from = catalog({
+            tables: new Map([users, posts]),
+            constraints: new Map([
+                ['public.users.users_pkey', constraint('users_pkey', 'public.users', 'p', 'PRIMARY KEY (id)')],
+                ['public.posts.posts_user_fkey', constraint('posts_user_fkey', 'public.posts', 'f', 'FOREIGN KEY (user_id) REFERENCES public.users(id)')]
+            ])
+        });
+        const to = catalog({
+            tables: new Map([users, posts]),
+            constraints: new Map([
+                ['public.users.users_pkey', constraint('users_pkey', 'public.users', 'p', 'PRIMARY KEY (id) DEFERRABLE')],
+                ['public.posts.posts_user_fkey', constraint('posts_user_fkey', 'public.posts', 'f', 'FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE')]
+            ])
+        });
+        expect(sqlOf(from, to)).toEqual([
+            'ALTER TABLE public.posts DROP CONSTRAINT posts_user_fkey',
+            'ALTER TABLE public.users DROP CONSTRAINT users_pkey',
+            'ALTER TABLE public.users ADD CONSTRAINT users_pkey PRIMARY KEY (id) DEFERRABLE',
+            'ALTER TABLE public.posts ADD CONSTRAINT posts_user_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE'
+        ]);
+    });
+
+    test("drops a removed table without dropping its constraints or owned sequences first", () => {
+        const from = catalog({
+            tables: new Map([table('public.logs', [column('id', 'bigint')])]),
+            sequences: new Map([['public.logs_id_seq', { name: 'public.logs_id_seq', table: 'public.logs.id', kind: null, definition: 'AS bigint' }]]),
+            constraints: new Map([['public.logs.logs_pkey', { name: 'logs_pkey', table: 'public.logs', kind: 'p', definition: 'PRIMARY KEY (id)' }]])
+        });
+        expect(diffCatalogs(from, catalog()).statements).toEqual([{ sql: 'DROP TABLE public.logs', destructive: true }]);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import fs from "fs-extra";
+import { validateInputConfig } from "../index.ts";
+
+const valid = { siteUrl: 'https://app.example.com', apiUrl: 'https://api.example.com' };
+const email = { from: 'noreply@example.com', host: 'smtp.example.com', port: 587, user: 'mailer', pass: 'secret' };
+
+describe("validateInputConfig", () => {
+    test("accepts the example input.json", () => {
+        expect(validateInputConfig(JSON.parse(fs.readFileSync(`${import.meta.dir}/../input.json`, 'utf-8')))).toEqual([]);
+    });
+
+    test("requires siteUrl and apiUrl as http(s) URLs without a trailing slash", () => {
+        expect(validateInputConfig({})).toEqual(['siteUrl: is required', 'apiUrl: is required']);
+        expect(validateInputConfig({ siteUrl: 'app.example.com', apiUrl: 'https://api.example.com/' })).toEqual([
+            'siteUrl: must be an http:// or https:// URL',
+            'apiUrl: must not end with a slash'
+        ]);
+    });
+
+    test("suggests the right spelling of an unknown key", () => {
+        expect(validateInputConfig({ ...valid, siteurl: 'x' })).toEqual(['siteurl: unknown setting, did you mean "siteUrl"?']);
+    });
+
+    test("checks each redirect URL, allowing app schemes", () => {
+        expect(validateInputConfig({
+            ...valid,
+            additionalRedirectUrls: ['myapp://callback', 'not a url', 'https://a.example.com,https://b.example.com', 'myapp://callback']
+        })).toEqual([
+            'additionalRedirectUrls[1]: must be a URL such as https://example.com/callback',
+            'additionalRedirectUrls[2]: must not contain a comma; list each URL separately',
+            'additionalRedirectUrls[3]: "myapp://callback" is listed more than once'
+        ]);
+    });
+
+    test("treats SMTP settings as all-or-nothing", () => {
+        expect(validateInputConfig({ ...valid, email })).toEqual([]);
+        expect(validateInputConfig({ ...valid, email: {} })[0]).toStartWith('email: SMTP settings are empty');
+        expect(validateInputConfig({ ...valid, email: { ...email, pass: '', port: 70000, from: 'noreply' } })).toEqual([
+            'email.pass: is required when SMTP is configured',
+            'email.from: must be an email address',
+            'email.port: must be a port number between 1 and 65535'
+        ]);
+    });
+});
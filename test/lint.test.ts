@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs-extra";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LINT_RULES, lintMigrationFile, lintStatement } from "../index.ts";
+
+type LintLevels = Parameters<typeof lintMigrationFile>[1];
+
+// Rule ids found in one statement, against an existing table unless `created` lists it
+const rulesFor = (sql: string, created: string[] = [], transactional = true) =>
+    lintStatement(sql, new Set(created), transactional).map(issue => issue.rule);
+
+describe("lintStatement", () => {
+    test("flags risky changes to existing tables", () => {
+        expect(rulesFor('DROP TABLE IF EXISTS users;')).toEqual(['drop-table']);
+        expect(rulesFor('TRUNCATE TABLE public.users;')).toEqual(['truncate']);
+        expect(rulesFor('ALTER TABLE users DROP COLUMN IF EXISTS nickname;')).toEqual(['drop-column']);
+        expect(rulesFor('ALTER TABLE users ALTER COLUMN id TYPE bigint;')).toEqual(['column-type-change']);
+        expect(rulesFor('ALTER TABLE users ADD COLUMN IF NOT EXISTS email text NOT NULL;')).toEqual(['not-null-without-default']);
+        expect(rulesFor('CREATE INDEX IF NOT EXISTS users_email ON users (email);')).toEqual(['index-not-concurrent']);
+    });
+
+    test("allows the same changes on a table created earlier in the migration", () => {
+        expect(rulesFor('ALTER TABLE users ADD COLUMN IF NOT EXISTS email text NOT NULL;', ['users'])).toEqual([]);
+        expect(rulesFor('CREATE INDEX IF NOT EXISTS users_email ON "public"."Users" (email);', ['users'])).toEqual([]);
+        expect(rulesFor('ALTER TABLE users ALTER COLUMN id TYPE bigint;', ['users'])).toEqual([]);
+    });
+
+    test("records created tables for the statements after them", () => {
+        const created = new Set<string>();
+        expect(lintStatement('CREATE TABLE public."Notes" (id int);', created, true).map(issue => issue.rule)).toEqual(['missing-if-not-exists']);
+        expect([...created]).toEqual(['notes']);
+    });
+
+    test("accepts NOT NULL columns that fill existing rows", () => {
+        expect(rulesFor("ALTER TABLE users ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active';")).toEqual([]);
+        expect(rulesFor('ALTER TABLE users ADD COLUMN IF NOT EXISTS seq bigserial NOT NULL;')).toEqual([]);
+    });
+
+    test("flags CONCURRENTLY only inside a transaction", () => {
+        expect(rulesFor('CREATE INDEX CONCURRENTLY IF NOT EXISTS users_email ON users (email);')).toEqual(['concurrently-in-transaction']);
+        expect(rulesFor('CREATE INDEX CONCURRENTLY IF NOT EXISTS users_email ON users (email);', [], false)).toEqual([]);
+    });
+
+    test("flags missing IF EXISTS and IF NOT EXISTS", () => {
+        expect(rulesFor('DROP VIEW active_users;')).toEqual(['missing-if-exists']);
+        expect(rulesFor('CREATE SCHEMA app;')).toEqual(['missing-if-not-exists']);
+        expect(rulesFor('ALTER TABLE users DROP CONSTRAINT users_email_key, ADD CONSTRAINT users_email_unique UNIQUE (email);')).toEqual(['missing-if-exists']);
+    });
+
+    test("ignores keywords in comments and strings", () => {
+        expect(rulesFor("INSERT INTO notes (body) VALUES ('DROP TABLE users; TRUNCATE users');")).toEqual([]);
+        expect(rulesFor('-- TRUNCATE users\nSELECT 1;')).toEqual([]);
+    });
+});
+
+describe("lintMigrationFile", () => {
+    let dir = '';
+    const levels: LintLevels = Object.fromEntries(LINT_RULES.map(rule => [rule.id, rule.severity]));
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-'));
+    });
+
+    afterEach(() => {
+        fs.removeSync(dir);
+    });
+
+    const lint = (content: string, ruleLevels: LintLevels = levels) => {
+        fs.writeFileSync(`${dir}/20250101T000000_change.sql`, content);
+        return lintMigrationFile(`${dir}/20250101T000000_change.sql`, ruleLevels)
+            .map(finding => `${finding.line} ${finding.rule} ${finding.severity}`);
+    };
+
+    test("reports each finding at the line its statement starts on", () => {
+        expect(lint('-- migrate:up\nCREATE TABLE IF NOT EXISTS notes (id int);\n\nTRUNCATE\n  users;\n')).toEqual(['4 truncate warning']);
+    });
+
+    test("only lints the up section", () => {
+        expect(lint('-- migrate:up\nSELECT 1;\n-- migrate:down\nDROP TABLE IF EXISTS notes;\n')).toEqual([]);
+    });
+
+    test("lint:ignore silences the listed rules for the next statement, or the one on its line", () => {
+        expect(lint([
+            '-- lint:ignore drop-table',
+            'DROP TABLE users;',
+            'DROP TABLE IF EXISTS posts; -- lint:ignore drop-table',
+            'TRUNCATE tags;'
+        ].join('\n'))).toEqual(['2 missing-if-exists warning', '4 truncate warning']);
+    });
+
+    test("lint:ignore without rules silences every rule", () => {
+        expect(lint('-- lint:ignore\nDROP TABLE users;\nTRUNCATE tags;\n')).toEqual(['3 truncate warning']);
+    });
+
+    test("uses the configured level of each rule", () => {
+        expect(lint('TRUNCATE tags;\nDROP TABLE IF EXISTS users;\n', { ...levels, truncate: 'error', 'drop-table': 'off' })).toEqual(['1 truncate error']);
+    });
+
+    test("skips squash baselines", () => {
+        expect(lint('-- migrate:baseline 20250101T000000\nDROP TABLE users;\n')).toEqual([]);
+    });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs-extra";
+import * as crypto from "node:crypto";
+import * as os from "node:os";
+import * as path from "node:path";
+import { detectMigrationDrift } from "../index.ts";
+
+let dir = '';
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+});
+
+afterEach(() => {
+    fs.removeSync(dir);
+});
+
+const writeMigration = (file: string, content: string) => {
+    fs.writeFileSync(`${dir}/${file}`, content);
+    return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+};
+
+const applied = (...rows: { version: string; checksum?: string | null }[]) => new Map(rows.map(row => [row.version, {
+    version: row.version,
+    appliedAt: '2025-01-01T00:00:00Z',
+    checksum: row.checksum ?? null,
+    fileSize: null,
+    toolVersion: null
+}]));
+
+describe("detectMigrationDrift", () => {
+    test("reports nothing when every applied file is unchanged", () => {
+        const checksum = writeMigration('20250101T000000_users.sql', 'CREATE TABLE users (id int);\n');
+        expect(detectMigrationDrift(dir, ['20250101T000000_users.sql'], applied({ version: '20250101T000000_users', checksum }))).toEqual([]);
+    });
+
+    test("reports a file edited after it was applied, but not a CRLF checkout", () => {
+        const checksum = writeMigration('20250101T000000_users.sql', 'CREATE TABLE users (id int);\n');
+        fs.writeFileSync(`${dir}/20250101T000000_users.sql`, 'CREATE TABLE users (id int);\r\n');
+        expect(detectMigrationDrift(dir, ['20250101T000000_users.sql'], applied({ version: '20250101T000000_users', checksum }))).toEqual([]);
+
+        fs.writeFileSync(`${dir}/20250101T000000_users.sql`, 'CREATE TABLE users (id bigint);\n');
+        const drift = detectMigrationDrift(dir, ['20250101T000000_users.sql'], applied({ version: '20250101T000000_users', checksum }));
+        expect(drift.map(entry => [entry.kind, entry.version])).toEqual([['changed', '20250101T000000_users']]);
+    });
+
+    test("skips rows recorded before checksums were tracked", () => {
+        writeMigration('20250101T000000_users.sql', 'CREATE TABLE users (id int);\n');
+        expect(detectMigrationDrift(dir, ['20250101T000000_users.sql'], applied({ version: '20250101T000000_users' }))).toEqual([]);
+    });
+
+    test("reports applied migrations whose file is gone, and unapplied ones older than the latest", () => {
+        writeMigration('20250101T000000_users.sql', 'CREATE TABLE users (id int);\n');
+        writeMigration('20250301T000000_posts.sql', 'CREATE TABLE posts (id int);\n');
+        const drift = detectMigrationDrift(dir, ['20250101T000000_users.sql', '20250301T000000_posts.sql'], applied(
+            { version: '20250201T000000_tags' },
+            { version: '20250301T000000_posts' }
+        ));
+        expect(drift.map(entry => [entry.kind, entry.version])).toEqual([
+            ['unknown', '20250101T000000_users'],
+            ['missing', '20250201T000000_tags']
+        ]);
+    });
+
+    test("does not report versions covered by a squash baseline as missing", () => {
+        writeMigration('20250301T000000_baseline.sql', '-- migrate:baseline 20250301T000000\nCREATE TABLE users (id int);\n');
+        const drift = detectMigrationDrift(dir, ['20250301T000000_baseline.sql'], applied(
+            { version: '20250101T000000_users' },
+            { version: '20250401T000000_posts' }
+        ));
+        expect(drift.map(entry => [entry.kind, entry.version])).toEqual([['missing', '20250401T000000_posts']]);
+    });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs-extra";
+import * as os from "node:os";
+import * as path from "node:path";
+import { combineSchemaFiles, defaultProjectConfig, loadSchemaFiles, schemaFileDependencies } from "../index.ts";
+
+let dir = '';
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schema-'));
+});
+
+afterEach(() => {
+    fs.removeSync(dir);
+});
+
+const write = (files: Record<string, string>) => {
+    for (const [file, content] of Object.entries(files)) {
+        fs.outputFileSync(`${dir}/${file}`, content);
+    }
+};
+
+const load = (schemaFiles: string[]) => loadSchemaFiles({ ...defaultProjectConfig(dir), schemaDir: dir, schemaFiles });
+
+describe("schemaFileDependencies", () => {
+    test("reads -- depends: lines from the header only", () => {
+        expect(schemaFileDependencies('functions/auth/is_admin.sql', [
+            '-- Checks the caller',
+            '-- depends: base/users, base/roles.sql',
+            '--depends: ./helpers ../shared/util.sql',
+            '',
+            'CREATE FUNCTION is_admin() RETURNS boolean AS $$ SELECT true $$ LANGUAGE sql;',
+            '-- depends: base/ignored.sql'
+        ].join('\n'))).toEqual(['base/users.sql', 'base/roles.sql', 'functions/auth/helpers.sql', 'functions/shared/util.sql']);
+    });
+});
+
+describe("loadSchemaFiles", () => {
+    test("runs areas in the configured order, files in path order, and reports missing areas", () => {
+        write({
+            'functions/b.sql': 'SELECT 2;',
+            'functions/a.sql': 'SELECT 1;',
+            'functions/nested/c.sql': 'SELECT 3;',
+            'base.sql': 'SELECT 0;',
+            'base/extra.sql': 'SELECT 0;'
+        });
+        const set = load(['base', 'enums', 'functions']);
+        expect(set.files.map(file => file.path)).toEqual(['base.sql', 'base/extra.sql', 'functions/a.sql', 'functions/b.sql', 'functions/nested/c.sql']);
+        expect(set.missing).toEqual(['enums']);
+        expect(set.errors).toEqual([]);
+    });
+
+    test("moves a file after the files it depends on, across areas", () => {
+        write({
+            'base/posts.sql': '-- depends: base/users\nCREATE TABLE posts ();',
+            'base/users.sql': '-- depends: enums/status\nCREATE TABLE users ();',
+            'pre.sql': 'CREATE SCHEMA app;',
+            'enums/status.sql': 'CREATE TYPE status AS ENUM ();'
+        });
+        expect(load(['pre', 'base', 'enums']).files.map(file => file.path)).toEqual(['pre.sql', 'enums/status.sql', 'base/users.sql', 'base/posts.sql']);
+    });
+
+    test("reports dependencies that are not schema files", () => {
+        write({ 'base/posts.sql': '-- depends: base/users\nCREATE TABLE posts ();' });
+        const set = load(['base']);
+        expect(set.errors).toEqual(['base/posts.sql depends on base/users.sql, which is not one of the schema files']);
+        expect(set.files).toEqual([]);
+    });
+
+    test("reports each dependency cycle once", () => {
+        write({
+            'base/a.sql': '-- depends: base/b\nSELECT 1;',
+            'base/b.sql': '-- depends: base/c\nSELECT 1;',
+            'base/c.sql': '-- depends: base/a\nSELECT 1;',
+            'base/d.sql': '-- depends: base/a\nSELECT 1;',
+            'base/e.sql': 'SELECT 1;'
+        });
+        const set = load(['base']);
+        expect(set.errors).toEqual(['Dependency cycle: base/a.sql → base/b.sql → base/c.sql → base/a.sql']);
+        expect(set.files.map(file => file.path)).toEqual(['base/e.sql']);
+    });
+
+    test("warns about files that are not in schemaFiles, but not about its own output", () => {
+        write({ 'base.sql': 'SELECT 1;', 'legacy.sql': 'SELECT 1;', 'combined.sql': '', 'combined.manifest.json': '{}' });
+        expect(load(['base']).warnings).toEqual([expect.stringContaining('legacy.sql is not in schemaFiles')]);
+    });
+});
+
+describe("combineSchemaFiles", () => {
+    test("records the lines each file occupies in combined.sql", () => {
+        write({ 'base.sql': 'CREATE TABLE a ();\nCREATE TABLE b ();', 'functions/f.sql': '-- depends: base\nSELECT 1;' });
+        const { sql, manifest } = combineSchemaFiles(load(['base', 'functions']).files);
+        const lines = sql.split('\n');
+        for (const file of manifest.files) {
+            const content = fs.readFileSync(`${dir}/${file.path}`, 'utf-8');
+            expect(lines.slice(file.lines[0] - 1, file.lines[1]).join('\n')).toBe(content);
+        }
+        expect(manifest.files.map(file => [file.path, file.dependsOn])).toEqual([['base.sql', []], ['functions/f.sql', ['base.sql']]]);
+    });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs-extra";
+import * as os from "node:os";
+import * as path from "node:path";
+import { parseCsv, seedFileSql } from "../index.ts";
+
+describe("parseCsv", () => {
+    test("reads unquoted empty fields as NULL and \"\" as an empty string", () => {
+        expect(parseCsv('id,name,bio\n1,,""\n')).toEqual([['id', 'name', 'bio'], ['1', null, '']]);
+    });
+
+    test("keeps commas, quotes and line breaks inside quoted fields", () => {
+        expect(parseCsv('a,b\n"x, y","say ""hi""\nbye"\n')).toEqual([['a', 'b'], ['x, y', 'say "hi"\nbye']]);
+    });
+
+    test("accepts CRLF line endings, skips blank lines and keeps a last line without a newline", () => {
+        expect(parseCsv('a,b\r\n\r\n1,2\r\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    });
+
+    test("keeps a trailing empty field", () => {
+        expect(parseCsv('a,b\n1,\n')).toEqual([['a', 'b'], ['1', null]]);
+    });
+});
+
+describe("seedFileSql", () => {
+    let dir = '';
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-'));
+    });
+
+    afterEach(() => {
+        fs.removeSync(dir);
+    });
+
+    const write = (file: string, content: string) => {
+        fs.writeFileSync(`${dir}/${file}`, content);
+        return `${dir}/${file}`;
+    };
+
+    test("passes SQL files through", () => {
+        expect(seedFileSql(write('01_users.sql', 'INSERT INTO users DEFAULT VALUES;'), false)).toEqual({ sql: 'INSERT INTO users DEFAULT VALUES;', table: null, rows: 0 });
+    });
+
+    test("inserts CSV rows into the table named after the file, without its order prefix or a BOM", () => {
+        const seed = seedFileSql(write('02_auth.users.csv', '\uFEFFid,email\n1,a@example.com\n2,\n'), false);
+        expect(seed).toEqual({
+            sql: `INSERT INTO "auth"."users" ("id", "email") VALUES\n    ('1', 'a@example.com'),\n    ('2', NULL);`,
+            table: '"auth"."users"',
+            rows: 2
+        });
+    });
+
+    test("loads CSV with COPY for psql", () => {
+        const seed = seedFileSql(write('tags.csv', 'id,name\r\n1,"a,b"\r\n'), true);
+        expect(seed.sql).toBe(`COPY "tags" ("id", "name") FROM stdin WITH (FORMAT csv, HEADER true);\nid,name\n1,"a,b"\n\\.`);
+    });
+
+    test("rejects a CSV with an incomplete header or ragged rows", () => {
+        expect(() => seedFileSql(write('tags.csv', 'id,\n1,2\n'), false)).toThrow('the first line must name every column');
+        expect(() => seedFileSql(write('tags.csv', 'id,name\n1\n'), false)).toThrow('row 2 has 1 fields, the header has 2');
+    });
+
+    test("inserts JSON objects, using DEFAULT for keys a row leaves out", () => {
+        const seed = seedFileSql(write('settings.json', JSON.stringify([{ key: 'theme', value: { dark: true } }, { key: 'beta', enabled: false }])), false);
+        expect(seed.sql).toBe(`INSERT INTO "settings" ("key", "value", "enabled") VALUES\n    ('theme', '{"dark":true}', DEFAULT),\n    ('beta', DEFAULT, 'false');`);
+        expect(seed.rows).toBe(2);
+    });
+
+    test("rejects JSON that is not an array of objects", () => {
+        expect(() => seedFileSql(write('settings.json', '[1, 2]'), false)).toThrow('must be an array of objects');
+    });
+});
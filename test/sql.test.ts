@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { nativeExecutorLimitation, splitSqlStatementRanges, splitSqlStatements } from "../index.ts";
+
+describe("splitSqlStatements", () => {
+    test("splits on semicolons and trims each statement", () => {
+        expect(splitSqlStatements("CREATE TABLE a (id int);\n  INSERT INTO a VALUES (1);\n")).toEqual([
+            "CREATE TABLE a (id int);",
+            "INSERT INTO a VALUES (1);"
+        ]);
+    });
+
+    test("keeps a last statement without a semicolon", () => {
+        expect(splitSqlStatements("SELECT 1; SELECT 2")).toEqual(["SELECT 1;", "SELECT 2"]);
+    });
+
+    test("ignores semicolons in strings and quoted identifiers", () => {
+        expect(splitSqlStatements(`INSERT INTO "a;b" VALUES ('x;y', 'it''s;');SELECT 1;`)).toEqual([
+            `INSERT INTO "a;b" VALUES ('x;y', 'it''s;');`,
+            "SELECT 1;"
+        ]);
+    });
+
+    test("handles backslash escapes in E'' strings only", () => {
+        expect(splitSqlStatements("SELECT E'a\\';b';SELECT 'c\\';SELECT 2;")).toEqual([
+            "SELECT E'a\\';b';",
+            "SELECT 'c\\';",
+            "SELECT 2;"
+        ]);
+    });
+
+    test("ignores semicolons in dollar-quoted bodies, with and without tags", () => {
+        const fn = "CREATE FUNCTION f() RETURNS int AS $$ BEGIN RETURN 1; END; $$ LANGUAGE plpgsql;";
+        const tagged = "DO $body$ BEGIN PERFORM 1; $$ not the end; END $body$;";
+        expect(splitSqlStatements(`${fn}\n${tagged}`)).toEqual([fn, tagged]);
+    });
+
+    test("does not treat $1 parameters or identifiers with $ as dollar quotes", () => {
+        expect(splitSqlStatements("PREPARE p AS SELECT $1;SELECT a$b$c FROM t;")).toEqual([
+            "PREPARE p AS SELECT $1;",
+            "SELECT a$b$c FROM t;"
+        ]);
+    });
+
+    test("ignores semicolons in line and nested block comments", () => {
+        expect(splitSqlStatements("-- one; two\nSELECT 1; /* a; /* b; */ c; */ SELECT 2;")).toEqual([
+            "-- one; two\nSELECT 1;",
+            "/* a; /* b; */ c; */ SELECT 2;"
+        ]);
+    });
+
+    test("drops a trailing part that is only comments or whitespace", () => {
+        expect(splitSqlStatements("SELECT 1;\n-- trailing comment\n/* block */  \n")).toEqual(["SELECT 1;"]);
+    });
+});
+
+describe("splitSqlStatementRanges", () => {
+    test("reports where each statement starts in the script", () => {
+        const script = "SELECT 1;\n\nSELECT 2;";
+        const ranges = splitSqlStatementRanges(script);
+        expect(ranges.map(range => range.offset)).toEqual([0, 9]);
+        expect(ranges.map(range => script.slice(range.offset, range.offset + range.sql.length))).toEqual(ranges.map(range => range.sql));
+    });
+});
+
+describe("nativeExecutorLimitation", () => {
+    test("accepts ordinary statements", () => {
+        expect(nativeExecutorLimitation("-- comment\nCREATE TABLE a (id int);")).toBeNull();
+        expect(nativeExecutorLimitation("COPY a TO STDOUT;")).toBeNull();
+    });
+
+    test("rejects psql meta-commands, also after comments", () => {
+        expect(nativeExecutorLimitation("-- restore\n\\connect other")).toContain("psql meta-commands");
+    });
+
+    test("rejects COPY ... FROM stdin in either case", () => {
+        expect(nativeExecutorLimitation("COPY public.users (id, name) FROM stdin;")).toContain("COPY ... FROM stdin");
+        expect(nativeExecutorLimitation("copy users from STDIN with (format csv);")).toContain("COPY ... FROM stdin");
+    });
+});